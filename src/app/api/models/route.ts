@@ -0,0 +1,16 @@
+import { DEFAULT_SETTINGS, MIN_BUDGET_TOKENS, allowedModels, defaultModel } from '@/utils/models';
+import { archiveEnabled } from '@/utils/runArchive';
+import { requireUserKey } from '@/utils/streamRequest';
+
+// Models the stream route accepts, with the default generation settings, whether
+// visitors must bring their own key and whether runs are archived
+export async function GET() {
+  const models = allowedModels();
+  return Response.json({
+    models,
+    defaults: { ...DEFAULT_SETTINGS, model: defaultModel(models) },
+    min_budget_tokens: MIN_BUDGET_TOKENS,
+    require_user_key: requireUserKey(),
+    archive: archiveEnabled(),
+  });
+}
@@ -0,0 +1,13 @@
+import { getRun } from '@/utils/runArchive';
+import { ApiErrorBody } from '@/utils/streamRequest';
+
+// One archived run: its summary and the full trace, for replay
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const run = await getRun(id);
+  if (!run) {
+    const body: ApiErrorBody = { error: `No archived run ${id}`, code: 'not_found' };
+    return Response.json(body, { status: 404 });
+  }
+  return Response.json(run);
+}
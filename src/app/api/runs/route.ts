@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server';
+import { listRuns, parseRunQuery } from '@/utils/runArchive';
+import { RequestValidationError } from '@/utils/streamRequest';
+
+// Archived runs, newest first: ?model=&provider=&pattern=&status=&from=&to=&page=&page_size=
+export async function GET(request: NextRequest) {
+  try {
+    return Response.json(await listRuns(parseRunQuery(request.nextUrl.searchParams)));
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      return Response.json(error.toBody(), { status: 400 });
+    }
+    throw error;
+  }
+}
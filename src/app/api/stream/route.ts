@@ -1,118 +1,233 @@
+import { randomUUID } from 'crypto';
 import { NextRequest } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
+import { anthropicProvider } from '@/utils/anthropicProvider';
+import { fixtureMode, fixtureOptions, fixtureProvider, hasFixtureTurns, loadFixture } from '@/utils/fixtureProvider';
+import { ProviderId, allowedModels, getModel } from '@/utils/models';
+import { openaiCompatibleProvider } from '@/utils/openaiCompatibleProvider';
+import { openaiProvider } from '@/utils/openaiProvider';
+import { priceTable, runCost } from '@/utils/pricing';
+import { QuotaReservation, clientId, dailyQuota, requestLimiter, retryAfterSeconds } from '@/utils/rateLimit';
+import { archiveEnabled, archiveRun } from '@/utils/runArchive';
+import { ReasoningProvider, createSink } from '@/utils/reasoningProvider';
+import { StreamEvent, formatEvent } from '@/utils/streamEvents';
+import {
+  ApiErrorBody,
+  RequestValidationError,
+  StreamRequest,
+  parseStreamRequest,
+  readApiKey,
+  requireUserKey,
+} from '@/utils/streamRequest';
+import { TraceRecorder } from '@/utils/trace';
 
-const client = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+// Live backends by id; fixtures are built per request from the trace they play
+const PROVIDERS: Record<Exclude<ProviderId, 'fixture'>, ReasoningProvider> = {
+  anthropic: anthropicProvider,
+  openai: openaiProvider,
+  'openai-compatible': openaiCompatibleProvider,
+};
+
+const errorResponse = (status: number, body: ApiErrorBody, headers: Record<string, string> = {}) => new Response(
+  JSON.stringify(body),
+  { status, headers: { 'Content-Type': 'application/json', ...headers } }
+);
+
+const tooManyResponse = (code: 'rate_limited' | 'quota_exceeded', error: string, retryAfterMs: number) => {
+  const retry_after = retryAfterSeconds(retryAfterMs);
+  return errorResponse(429, { error, code, retry_after }, { 'Retry-After': String(retry_after) });
+};
 
 export async function POST(request: NextRequest) {
-  const { prompt, temperature = 1.0, model = 'claude-sonnet-4-5' } = await request.json();
+  const models = allowedModels();
+  let body: StreamRequest;
+  let apiKey: string | undefined; // the user's own key, if they sent one; never logged
+  try {
+    const raw = await request.json().catch(() => {
+      throw new RequestValidationError('invalid_json', 'Request body must be valid JSON');
+    });
+    body = parseStreamRequest(raw, models);
+    apiKey = readApiKey(request.headers);
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      return errorResponse(400, error.toBody());
+    }
+    throw error;
+  }
+  const { messages, temperature, model, max_tokens, budget_tokens } = body;
+  const prompt = messages[messages.length - 1].content as string; // the last message is the user's
+
+  // Offline fixtures stand in for the model's provider, so they need no key
+  let provider: ReasoningProvider;
+  const fixture = body.fixture ?? (fixtureMode() ? {} : null);
+  if (fixture) {
+    try {
+      provider = fixtureProvider(await loadFixture(prompt, fixture.name), fixtureOptions(fixture));
+    } catch (error) {
+      if (error instanceof RequestValidationError) {
+        return errorResponse(400, error.toBody());
+      }
+      console.error('Fixture error:', error);
+      return errorResponse(500, {
+        error: error instanceof Error ? error.message : 'Could not load fixtures',
+        code: 'upstream_error',
+      });
+    }
+  } else {
+    // A live model rejects the placeholder signatures of fixture thinking
+    if (hasFixtureTurns(messages)) {
+      return errorResponse(400, new RequestValidationError(
+        'invalid_field',
+        'Earlier turns of this conversation were played from offline fixtures, so a live model can\'t continue it. Turn fixtures back on, or start a new query',
+        'messages'
+      ).toBody());
+    }
+    // parseStreamRequest only accepts allowed models
+    provider = PROVIDERS[getModel(model, models)!.provider as Exclude<ProviderId, 'fixture'>];
+    // Claude rejects any other temperature with thinking on, and would fail mid-stream
+    if (provider.id === 'anthropic' && temperature !== 1) {
+      return errorResponse(400, new RequestValidationError(
+        'invalid_field',
+        'Claude only thinks at temperature 1; set temperature to 1 for this model',
+        'temperature'
+      ).toBody());
+    }
+  }
+
+  if (!fixture && requireUserKey() && !apiKey) {
+    return errorResponse(401, {
+      error: 'This server needs your own API key. Add it in Settings',
+      code: 'missing_api_key',
+      field: 'api_key',
+    });
+  }
+  const configError = provider.configError(apiKey);
+  if (configError) {
+    return errorResponse(500, { error: configError, code: 'missing_api_key' });
+  }
+
+  // Shared deployments limit each client; fixtures cost nothing and aren't counted
+  let reservation: QuotaReservation | null = null;
+  if (!fixture) {
+    const client = clientId(request.headers, apiKey);
+    const limited = requestLimiter?.take(client);
+    if (limited && !limited.ok) {
+      return tooManyResponse('rate_limited', 'Too many runs started; please wait before starting another', limited.retryAfterMs);
+    }
+    // The quota guards the server's key; a user's own key spends their own budget
+    if (dailyQuota && !apiKey) {
+      // Held at the run's output ceiling until it settles with the real usage
+      const reserved = dailyQuota.reserve(client, max_tokens);
+      if (!reserved.ok) {
+        return tooManyResponse('quota_exceeded', 'Today\'s token quota is used up', reserved.retryAfterMs);
+      }
+      reservation = reserved.reservation;
+    }
+  }
 
-  if (!process.env.ANTHROPIC_API_KEY || process.env.ANTHROPIC_API_KEY === 'your_api_key_here') {
-    return new Response(
-      JSON.stringify({ error: 'ANTHROPIC_API_KEY not configured. Please add your API key to .env.local' }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    );
+  // Aborted when the client disconnects or cancels, so we stop paying for tokens nobody reads.
+  // A client that left during the checks above never fires the event, so look first.
+  const upstreamAbort = new AbortController();
+  if (request.signal.aborted) {
+    upstreamAbort.abort();
+  } else {
+    request.signal.addEventListener('abort', () => upstreamAbort.abort(), { once: true });
   }
 
   // Create a ReadableStream for SSE
   const stream = new ReadableStream({
+    cancel() {
+      upstreamAbort.abort();
+    },
+
     async start(controller) {
       const encoder = new TextEncoder();
+      // Everything sent is also recorded for the run archive
+      const recorder = new TraceRecorder(prompt);
+      const send = (event: StreamEvent) => {
+        recorder.record(event);
+        controller.enqueue(encoder.encode(formatEvent(event)));
+      };
+      const { sink, stats } = createSink(send, Date.now());
 
       try {
         // Send start event
-        const startEvent = {
+        const startEvent: StreamEvent = {
           type: 'start',
           data: {
-            run_id: `run_${Date.now()}`,
+            run_id: `run_${randomUUID()}`,
+            provider: provider.id,
             model,
-            temperature
+            temperature,
+            max_tokens,
+            budget_tokens
           }
         };
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(startEvent)}\n\n`));
-
-        const startTime = Date.now();
-        let tokenCount = 0;
-        let fullAnswer = '';
-
-        // Create streaming request with extended thinking
-        const stream = await client.messages.stream({
-          model,
-          max_tokens: 15000,
-          temperature,
-          thinking: {
-            type: 'enabled',
-            budget_tokens: 10000
-          },
-          messages: [{
-            role: 'user',
-            content: prompt
-          }]
-        });
+        send(startEvent);
 
-        // Process the stream
-        for await (const chunk of stream) {
-          // Handle thinking content
-          if (chunk.type === 'content_block_start' && chunk.content_block.type === 'thinking') {
-            // Thinking block started
-          }
+        // Don't start a paid call for a client that's already gone
+        if (upstreamAbort.signal.aborted) {
+          throw new Error('Stream cancelled');
+        }
+        const content = await provider.stream(body, sink, upstreamAbort.signal, apiKey);
+        if (upstreamAbort.signal.aborted) {
+          throw new Error('Stream cancelled');
+        }
 
-          if (chunk.type === 'content_block_delta') {
-            if (chunk.delta.type === 'thinking_delta') {
-              // Thinking text chunk
-              const textChunk = chunk.delta.thinking;
-              tokenCount++;
-
-              const deltaEvent = {
-                type: 'delta',
-                data: {
-                  text_chunk: textChunk,
-                  t_rel_ms: Date.now() - startTime,
-                }
-              };
-              controller.enqueue(encoder.encode(`data: ${JSON.stringify(deltaEvent)}\n\n`));
-            } else if (chunk.delta.type === 'text_delta') {
-              // Answer text chunk
-              const textChunk = chunk.delta.text;
-              fullAnswer += textChunk;
-            }
+        const { tokens_out, ms, usage, answer } = stats();
+        send({
+          type: 'end',
+          data: {
+            tokens_out,
+            ms,
+            ...(usage && { usage }),
+            cost_usd: usage ? runCost(usage, priceTable()[model]) : null
           }
+        });
 
-          // Check if stream is done
-          if (chunk.type === 'message_stop') {
-            const endTime = Date.now();
-            const endEvent = {
-              type: 'end',
-              data: {
-                tokens_out: tokenCount,
-                ms: endTime - startTime
-              }
-            };
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify(endEvent)}\n\n`));
-
-            // Send the final answer
-            const answerEvent = {
-              type: 'answer',
-              data: {
-                answer: fullAnswer || 'No response generated.'
-              }
-            };
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify(answerEvent)}\n\n`));
-          }
-        }
+        // Send the final answer
+        send({ type: 'answer', data: { answer: answer || 'No response generated.' } });
+
+        // Return the assistant turn, thinking signatures included, for follow-ups
+        send({ type: 'turn', data: { content } });
 
         controller.close();
       } catch (error) {
+        // Nobody is listening any more, so there is no one to tell
+        if (upstreamAbort.signal.aborted) {
+          console.log('Stream cancelled by the client');
+          recorder.cancel();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the cancellation
+          }
+          return;
+        }
+
         console.error('Stream error:', error);
-        const errorEvent = {
+        const errorEvent: StreamEvent = {
           type: 'error',
           data: {
-            error: error instanceof Error ? error.message : 'Unknown error occurred'
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+            code: 'upstream_error'
           }
         };
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorEvent)}\n\n`));
+        send(errorEvent);
         controller.close();
+      } finally {
+        // Count what the run used, finished or not
+        if (reservation && dailyQuota) {
+          const { usage, tokens_out } = stats();
+          dailyQuota.settle(reservation, usage
+            ? usage.input_tokens + usage.output_tokens + usage.cache_creation_input_tokens + usage.cache_read_input_tokens
+            : tokens_out);
+        }
+
+        // Errored and cancelled runs are archived with their status (see archiveRun)
+        if (archiveEnabled()) {
+          archiveRun(recorder.toTrace(), body.preset, (messages.length + 1) / 2)
+            .catch((error) => console.error('Could not archive run:', error));
+        }
       }
     }
   });
@@ -124,4 +239,4 @@ export async function POST(request: NextRequest) {
       'Connection': 'keep-alive',
     },
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,404 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import AxisLegend from '@/components/AxisLegend';
+import ReplayControls from '@/components/ReplayControls';
+import ThinkingText from '@/components/ThinkingText';
+import ThoughtAudio, { ThoughtAudioRef } from '@/components/ThoughtAudio';
+import TraceDiff from '@/components/TraceDiff';
+import { CustomPattern, loadCustomPatterns, withCustomPatterns } from '@/utils/customPatterns';
+import {
+  DEFAULT_BUDGET_TOKENS, DEFAULT_SETTINGS, GenerationSettings, MIN_BUDGET_TOKENS, MODELS, ModelOption, acceptsTemperature, getModel,
+  settingsError,
+} from '@/utils/models';
+import { ActiveAxes, PresetMode } from '@/utils/patternEngine';
+import { recordRun } from '@/utils/recordRun';
+import { ReplayEngine, ReplayState, traceReplay } from '@/utils/replayEngine';
+import { loadPresetRouting, presetRouting } from '@/utils/soundRouting';
+import { API_KEY_STORAGE, streamErrorMessage } from '@/utils/streamRequest';
+import { TextChunk, chunksFromTrace } from '@/utils/textChunks';
+import { DEFAULT_ROUTING } from '@/utils/thoughtScore';
+import { ThoughtTrace, parseTrace } from '@/utils/trace';
+
+// One of the two runs being compared
+interface CompareSide {
+  temperature: number; // only sent for models that take one; the others run at 1
+  model: string;
+  budget_tokens: number;
+  trace: ThoughtTrace | null;
+  chunks: TextChunk[];
+  running: boolean;
+  error: string;
+  shown: number | null; // chunks shown while replaying
+  axes: ActiveAxes;
+}
+
+const SIDES = ['A', 'B'];
+const PRESET: PresetMode = 'standard'; // both sides are highlighted and heard with it
+const SIDE_PAN = [-0.8, 0.8]; // A on the left, B on the right, with a little bleed so neither is lost
+const NO_AXES: ActiveAxes = { certainty: false, reasoning: false, revision: false, resolution: false };
+
+// Claude only thinks at temperature 1, so out of the box the sides differ in thinking budget
+const emptySide = (budget_tokens: number): CompareSide => ({
+  temperature: 1,
+  model: DEFAULT_SETTINGS.model,
+  budget_tokens,
+  trace: null,
+  chunks: [],
+  running: false,
+  error: '',
+  shown: null,
+  axes: NO_AXES,
+});
+
+// The pair's transport state: playing while either plays, ended once both have
+const combinedState = (states: ReplayState[]): ReplayState => {
+  if (states.some((state) => state === 'playing')) return 'playing';
+  if (states.length > 0 && states.every((state) => state === 'ended')) return 'ended';
+  if (states.every((state) => state === 'idle')) return 'idle';
+  return 'paused';
+};
+
+// Two runs of one prompt side by side, played together with A panned left and B right
+export default function Compare() {
+  const [prompt, setPrompt] = useState('');
+  const [models, setModels] = useState<ModelOption[]>(MODELS);
+  const [defaults, setDefaults] = useState<GenerationSettings>(DEFAULT_SETTINGS);
+  const [apiKey, setApiKey] = useState('');
+  const [useFixtures, setUseFixtures] = useState(false);
+  const [sides, setSides] = useState<CompareSide[]>([emptySide(2000), emptySide(DEFAULT_BUDGET_TOKENS)]);
+  const [replayStates, setReplayStates] = useState<ReplayState[]>(['idle', 'idle']);
+  const [replayPositions, setReplayPositions] = useState([0, 0]);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [routing, setRouting] = useState(DEFAULT_ROUTING);
+  const [customPatterns, setCustomPatterns] = useState<CustomPattern[]>([]);
+  const patterns = useMemo(() => withCustomPatterns(customPatterns), [customPatterns]);
+  const audioRefs = [useRef<ThoughtAudioRef>(null), useRef<ThoughtAudioRef>(null)];
+  const replayRefs = useRef<(ReplayEngine | null)[]>([null, null]);
+  const fileInputRefs = [useRef<HTMLInputElement>(null), useRef<HTMLInputElement>(null)];
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    fetch('/api/models')
+      .then((res) => res.json())
+      .then((data: { models: ModelOption[]; defaults: GenerationSettings }) => {
+        setModels(data.models);
+        setDefaults(data.defaults);
+        setSides((current) => current.map((side) => (
+          getModel(side.model, data.models) ? side : { ...side, model: data.defaults.model }
+        )));
+      })
+      .catch((error) => console.error('Error loading models:', error));
+  }, []);
+
+  useEffect(() => setApiKey(localStorage.getItem(API_KEY_STORAGE) ?? ''), []);
+  useEffect(() => setCustomPatterns(loadCustomPatterns()), []);
+  useEffect(() => setRouting(presetRouting(loadPresetRouting(), PRESET)), []);
+
+  // Leaving the page stops any runs and replays
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    replayRefs.current.forEach((replay) => replay?.dispose());
+  }, []);
+
+  const updateSide = (index: number, update: Partial<CompareSide>) => {
+    setSides((current) => current.map((side, i) => (i === index ? { ...side, ...update } : side)));
+  };
+
+  const setReplayState = (index: number) => (state: ReplayState) => {
+    setReplayStates((current) => current.map((s, i) => (i === index ? state : s)));
+  };
+
+  const setReplayPosition = (index: number) => (position: number) => {
+    setReplayPositions((current) => current.map((p, i) => (i === index ? position : p)));
+  };
+
+  const stopReplay = () => {
+    replayRefs.current.forEach((replay) => replay?.dispose());
+    replayRefs.current = [null, null];
+    setReplayStates(['idle', 'idle']);
+    setReplayPositions([0, 0]);
+    setSides((current) => current.map((side) => ({ ...side, shown: null, axes: NO_AXES })));
+  };
+
+  const showTrace = (index: number, trace: ThoughtTrace) => {
+    audioRefs.forEach((ref) => ref.current?.stopAudio());
+    stopReplay();
+    updateSide(index, {
+      trace,
+      chunks: chunksFromTrace(trace, patterns),
+      temperature: trace.start.temperature,
+      model: getModel(trace.start.model, models) ? trace.start.model : sides[index].model,
+      budget_tokens: trace.start.budget_tokens ?? sides[index].budget_tokens,
+      running: false,
+      // A run that failed mid-stream keeps what arrived before the error
+      error: trace.error ? streamErrorMessage(trace.error, trace.error_code) : '',
+    });
+  };
+
+  const sideSettings = (side: CompareSide): GenerationSettings => ({ ...defaults, model: side.model, budget_tokens: side.budget_tokens });
+  const hasTemperature = (side: CompareSide): boolean => acceptsTemperature(getModel(side.model, models));
+  const sideTemperature = (side: CompareSide): number => (hasTemperature(side) ? side.temperature : 1);
+  const problems = sides.map((side) => settingsError(sideSettings(side), models));
+  const running = sides.some((side) => side.running);
+
+  // Run both sides at once; each keeps its own result or error
+  const handleRun = () => {
+    if (!prompt.trim() || running || problems.some(Boolean)) return;
+    audioRefs.forEach((ref) => ref.current?.stopAudio());
+    stopReplay();
+    const abort = new AbortController();
+    abortRef.current = abort;
+
+    sides.forEach((side, index) => {
+      updateSide(index, { trace: null, chunks: [], running: true, error: '' });
+      recordRun(prompt, {
+        temperature: sideTemperature(side),
+        settings: sideSettings(side),
+        fixture: useFixtures,
+        apiKey,
+        signal: abort.signal,
+      })
+        .then((trace) => showTrace(index, trace))
+        .catch((error) => {
+          if (abort.signal.aborted) return;
+          console.error(`Error running ${SIDES[index]}:`, error);
+          updateSide(index, { running: false, error: error instanceof Error ? error.message : 'Run failed' });
+        });
+    });
+  };
+
+  const handleLoadTrace = async (index: number, file: File) => {
+    try {
+      const trace = parseTrace(await file.text());
+      showTrace(index, trace);
+      if (!prompt.trim()) setPrompt(trace.prompt);
+    } catch (error) {
+      console.error('Error loading trace:', error);
+      updateSide(index, { error: error instanceof Error ? error.message : 'Could not load trace' });
+    }
+  };
+
+  // Lazily create both replay engines; they start together and keep the same clock
+  const getReplays = (): ReplayEngine[] => {
+    sides.forEach((side, index) => {
+      if (!side.trace || replayRefs.current[index]) return;
+      replayRefs.current[index] = traceReplay(side.trace, side.chunks, () => audioRefs[index].current, {
+        onShown: (count) => updateSide(index, { shown: count }),
+        onSeek: (axes) => updateSide(index, { axes }),
+        onStateChange: setReplayState(index),
+        onProgress: setReplayPosition(index),
+      });
+      replayRefs.current[index]?.setSpeed(replaySpeed);
+    });
+    return replayRefs.current.filter((replay): replay is ReplayEngine => replay !== null);
+  };
+
+  const handlePlay = () => {
+    const replays = getReplays();
+    if (replays.every((replay) => replay.getState() === 'ended')) {
+      replays.forEach((replay) => replay.seek(0));
+    }
+    replayRefs.current.forEach((replay, index) => {
+      if (!replay) return;
+      if (replay.getState() === 'idle' && replay.getPosition() === 0) {
+        audioRefs[index].current?.reset();
+        updateSide(index, { shown: 0 });
+      }
+      audioRefs[index].current?.startAudio();
+      // A run that has already finished waits for the other
+      if (replay.getPosition() < replay.getDuration()) replay.play();
+    });
+  };
+
+  const handlePause = () => {
+    replayRefs.current.forEach((replay) => replay?.pause());
+    audioRefs.forEach((ref) => ref.current?.stopAudio());
+  };
+
+  const handleStop = () => {
+    audioRefs.forEach((ref) => ref.current?.stopAudio());
+    stopReplay();
+  };
+
+  const handleSeek = (positionMs: number) => {
+    getReplays().forEach((replay) => replay.seek(positionMs));
+  };
+
+  const handleSpeed = (speed: number) => {
+    setReplaySpeed(speed);
+    replayRefs.current.forEach((replay) => replay?.setSpeed(speed));
+  };
+
+  const [a, b] = sides.map((side) => side.trace);
+  const durationMs = Math.max(0, ...sides.map(({ trace }) => {
+    const lastDelta = trace?.deltas[trace.deltas.length - 1];
+    return Math.max(trace?.end?.ms ?? 0, lastDelta ? lastDelta.t_rel_ms : 0);
+  }));
+  const buttonClass = 'text-xs uppercase tracking-wide border border-stone-600 py-1 px-2 hover:bg-stone-800 hover:text-white transition-colors';
+
+  return (
+    <div className="min-h-screen bg-stone-50 p-6 font-mono text-stone-900">
+      <div className="flex items-center justify-between mb-6 border-b border-stone-800 pb-2">
+        <h1 className="text-xl font-bold">
+          <Link href="/">PROCESS THOUGHT</Link>
+        </h1>
+        <span className="text-xs uppercase tracking-wide text-stone-600">Compare</span>
+      </div>
+
+      {/* Audio Engines (invisible), one per side */}
+      {sides.map((side, index) => (
+        <ThoughtAudio
+          key={index}
+          ref={audioRefs[index]}
+          temperature={sideTemperature(side)}
+          pan={SIDE_PAN[index]}
+          patterns={patterns}
+          routing={routing}
+          onActiveAxesChange={(axes) => updateSide(index, { axes })}
+        />
+      ))}
+
+      <div className="flex flex-col gap-4">
+        <div>
+          <label htmlFor="prompt" className="block text-xs mb-1 uppercase tracking-wide text-stone-600">
+            Query
+          </label>
+          <textarea
+            id="prompt"
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            className="w-full h-20 p-3 border border-stone-300 bg-white font-mono text-sm resize-none focus:outline-none focus:border-stone-400"
+            placeholder="Ask the same thing twice..."
+          />
+          <div className="flex gap-2 items-center mt-2">
+            <button
+              onClick={handleRun}
+              disabled={!prompt.trim() || running || problems.some(Boolean)}
+              className="text-xs uppercase tracking-wide border border-stone-800 bg-stone-800 text-white py-1 px-2 hover:bg-white hover:text-stone-800 disabled:bg-stone-400 disabled:text-stone-200 disabled:cursor-not-allowed transition-colors"
+            >
+              {running ? 'Running...' : 'Run Both'}
+            </button>
+            <label className="inline-flex items-center gap-2 text-xs uppercase tracking-wide">
+              <input
+                type="checkbox"
+                checked={useFixtures}
+                onChange={(e) => setUseFixtures(e.target.checked)}
+                className="accent-stone-800"
+              />
+              Offline Fixtures
+            </label>
+          </div>
+          {a && b && a.prompt !== b.prompt && (
+            <p className="text-xs text-red-700 mt-2">These runs answer different prompts, so the comparison may not mean much.</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          {sides.map((side, index) => (
+            <div key={index} className="flex flex-col gap-2 min-w-0">
+              <div className="flex flex-wrap gap-2 items-center">
+                <span className="text-sm font-bold">{SIDES[index]}</span>
+                <select
+                  value={side.model}
+                  onChange={(e) => updateSide(index, { model: e.target.value })}
+                  className="text-xs border border-stone-800 bg-white py-1 px-2"
+                  aria-label={`Model for ${SIDES[index]}`}
+                >
+                  {models.map((m) => <option key={m.id} value={m.id}>{m.label}</option>)}
+                </select>
+                <label className="inline-flex items-center gap-2 text-xs uppercase tracking-wide">
+                  Budget
+                  <input
+                    type="number"
+                    min={MIN_BUDGET_TOKENS}
+                    step={1000}
+                    value={side.budget_tokens}
+                    onChange={(e) => updateSide(index, { budget_tokens: parseInt(e.target.value, 10) || 0 })}
+                    className="w-20 text-xs border border-stone-300 bg-white py-1 px-2 focus:outline-none focus:border-stone-400"
+                    aria-label={`Thinking budget for ${SIDES[index]}`}
+                  />
+                </label>
+                {hasTemperature(side) && (
+                  <label className="inline-flex items-center gap-2 text-xs uppercase tracking-wide">
+                    Temp {side.temperature.toFixed(1)}
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.1"
+                      value={side.temperature}
+                      onChange={(e) => updateSide(index, { temperature: parseFloat(e.target.value) })}
+                      className="w-24 accent-stone-800"
+                    />
+                  </label>
+                )}
+                <button onClick={() => fileInputRefs[index].current?.click()} className={buttonClass}>
+                  Load Trace
+                </button>
+                <input
+                  ref={fileInputRefs[index]}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleLoadTrace(index, file);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+              {problems[index] && <p className="text-xs text-red-700">{problems[index]?.message}</p>}
+              {side.error && <p className="text-xs text-red-700">{side.error}</p>}
+
+              <div className="flex gap-2 h-96">
+                <div className="flex-1 bg-white border border-stone-300 p-4 overflow-auto text-sm font-mono leading-relaxed text-stone-700 whitespace-pre-wrap">
+                  {side.running && <span className="text-stone-500">Thinking...</span>}
+                  <ThinkingText
+                    chunks={side.shown === null ? side.chunks : side.chunks.slice(0, side.shown)}
+                    hidden={side.trace?.redacted.map((r) => r.offset) ?? []}
+                    preset={PRESET}
+                    patterns={patterns}
+                  />
+                </div>
+                <div className="w-48 bg-white border border-stone-300 p-3 overflow-auto">
+                  <AxisLegend active={side.axes} />
+                </div>
+              </div>
+
+              {side.trace?.answer && (
+                <details className="text-xs">
+                  <summary className="uppercase tracking-wide text-stone-600 cursor-pointer">Output</summary>
+                  <pre className="whitespace-pre-wrap font-mono leading-relaxed mt-1 max-h-48 overflow-auto">{side.trace.answer}</pre>
+                </details>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {(a || b) && durationMs > 0 && (
+          <div className="flex justify-center">
+            <ReplayControls
+              state={combinedState(replayStates.filter((_, i) => sides[i].trace))}
+              positionMs={Math.max(...replayPositions)}
+              durationMs={durationMs}
+              speed={replaySpeed}
+              onPlay={handlePlay}
+              onPause={handlePause}
+              onStop={handleStop}
+              onSeek={handleSeek}
+              onSpeedChange={handleSpeed}
+            />
+          </div>
+        )}
+
+        {a && b && (
+          <div className="max-w-2xl w-full mx-auto bg-white border border-stone-300 p-4">
+            <TraceDiff a={a} b={b} patterns={patterns} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,28 +1,40 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo, useCallback, DragEvent } from 'react';
+import Link from 'next/link';
+import AnalyticsPanel from '@/components/AnalyticsPanel';
 import ThoughtAudio, { ThoughtAudioRef } from '@/components/ThoughtAudio';
+import AxisLegend from '@/components/AxisLegend';
+import PatternEditor from '@/components/PatternEditor';
+import RoutingEditor from '@/components/RoutingEditor';
+import ExportControls from '@/components/ExportControls';
+import MixerPanel from '@/components/MixerPanel';
+import ReplayControls from '@/components/ReplayControls';
+import RunHistory from '@/components/RunHistory';
+import RunStats from '@/components/RunStats';
+import ThinkingText from '@/components/ThinkingText';
+import { CustomPattern, loadCustomPatterns, saveCustomPatterns, withCustomPatterns } from '@/utils/customPatterns';
+import { DEFAULT_MIXER, MixerControls, loadMixer, saveMixer } from '@/utils/mixer';
+import { AnyPatternId, PresetMode, StreamingPatternDetector } from '@/utils/patternEngine';
+import { ReplayEngine, ReplayState, traceReplay } from '@/utils/replayEngine';
+import { StreamEvent } from '@/utils/streamEvents';
+import { TextChunk, appendChunk, chunksFromTrace } from '@/utils/textChunks';
+import { ThoughtTrace, TraceRecorder, hasContent, parseTrace } from '@/utils/trace';
+import { AssistantContentBlock, ConversationTurn, buildMessages } from '@/utils/conversation';
+import {
+  DEFAULT_SETTINGS, GenerationSettings, MIN_BUDGET_TOKENS, MODELS, ModelOption, acceptsTemperature, getModel, settingsError,
+} from '@/utils/models';
+import { PresetRouting, loadPresetRouting, presetRouting, savePresetRouting } from '@/utils/soundRouting';
+import { RoutingMatrix } from '@/utils/thoughtScore';
+import { API_KEY_HEADER, API_KEY_STORAGE, ApiRequestError, INPUT_ERROR_CODES, readApiError, streamErrorMessage } from '@/utils/streamRequest';
 
-// Pattern detection regexes (must match ThoughtAudio.tsx)
-const UNCERTAINTY_MARKERS = /\b(maybe|might|possibly|perhaps|could|seems|appears|uncertain|unsure|probably|likely)\b/i;
-const CERTAINTY_MARKERS = /\b(clearly|definitely|must|obviously|certainly|surely|indeed|undoubtedly|always|never)\b/i;
-const REVISION_MARKERS = /\b(actually|wait|however|but|although|though|yet|nevertheless|nonetheless|no,|hmm|reconsider|rethink)\b/i;
-const QUESTION_MARKER = /\?/;
-const ENUMERATION_MARKERS = /\b(first|second|third|next|then|finally|lastly|step \d+|initially|subsequently|\d+\)|\d+\.)\b/i;
-const EMPHASIS_MARKERS = /\b(really|very|extremely|quite|highly|particularly|especially|significantly|crucially|absolutely)\b/i;
-const NEGATION_MARKERS = /\b(not|never|won't|can't|isn't|aren't|wasn't|weren't|don't|doesn't|didn't|no\b)\b/i;
-const CAUSATION_MARKERS = /\b(because|therefore|thus|hence|consequently|as a result|so|since|given that|due to)\b/i;
-const HEDGING_MARKERS = /\b(sort of|kind of|somewhat|relatively|fairly|rather|more or less|approximately)\b/i;
-const COMPARISON_MARKERS = /\b(similar|different|unlike|whereas|compared to|in contrast|on the other hand|alternatively)\b/i;
-const RESOLUTION_MARKERS = /\b(in conclusion|to summarize|ultimately|in the end|overall|in summary|final|conclusion)\b/i;
-
-interface TextChunk {
-  text: string;
-  patterns: string[];
+// A finished turn kept on screen above the current one
+interface PastTurn extends ConversationTurn {
+  chunks: TextChunk[];
+  hidden: number[];
+  answer: string;
 }
 
-type PresetMode = 'minimal' | 'standard' | 'maximum';
-
 // Example queries that create interesting sonic textures
 const EXAMPLE_QUERIES = [
   {
@@ -47,19 +59,61 @@ const EXAMPLE_QUERIES = [
   },
 ];
 
+// "12 seconds", "5 minutes", "3h 20m"
+const formatWait = (seconds: number): string => {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  if (seconds < 3600) {
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+  return `${Math.floor(seconds / 3600)}h ${Math.ceil((seconds % 3600) / 60)}m`;
+};
+
 export default function Home() {
   const [prompt, setPrompt] = useState('');
   const [temperature, setTemperature] = useState(1.0);
+  const [settings, setSettings] = useState<GenerationSettings>(DEFAULT_SETTINGS);
+  const [models, setModels] = useState<ModelOption[]>(MODELS);
+  const [useFixtures, setUseFixtures] = useState(false); // play recorded traces instead of calling the API
+  const [apiKey, setApiKey] = useState('');
+  const [requireKey, setRequireKey] = useState(false); // the server won't use its own key
+  const [archiving, setArchiving] = useState(false); // the server keeps runs, so they can be linked to
   const [isStreaming, setIsStreaming] = useState(false);
   const [thinkingChunks, setThinkingChunks] = useState<TextChunk[]>([]);
+  const [hiddenOffsets, setHiddenOffsets] = useState<number[]>([]); // where redacted thinking interrupted the text
   const [answer, setAnswer] = useState('');
   const [showConnecting, setShowConnecting] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [hasStarted, setHasStarted] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showPatternEditor, setShowPatternEditor] = useState(false);
+  const [customPatterns, setCustomPatterns] = useState<CustomPattern[]>([]);
+  const [showRoutingEditor, setShowRoutingEditor] = useState(false);
+  const [savedRouting, setSavedRouting] = useState<PresetRouting>({}); // routing tables edited per preset
+  const [mixer, setMixer] = useState<MixerControls>(DEFAULT_MIXER);
   const [presetMode, setPresetMode] = useState<PresetMode>('standard');
+  const [history, setHistory] = useState<PastTurn[]>([]);
+  const [turnContent, setTurnContent] = useState<AssistantContentBlock[] | null>(null); // current turn's blocks, once complete
+  const [followUp, setFollowUp] = useState('');
   const audioRef = useRef<ThoughtAudioRef>(null);
+  const detectorRef = useRef(new StreamingPatternDetector<AnyPatternId>());
+  const recorderRef = useRef<TraceRecorder | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [trace, setTrace] = useState<ThoughtTrace | null>(null);
+  const [shareable, setShareable] = useState(false); // the trace is in the server's archive
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [traceError, setTraceError] = useState('');
+  const [requestError, setRequestError] = useState(''); // why the server rejected the last Execute
+  const [isDragging, setIsDragging] = useState(false);
+  const replayRef = useRef<ReplayEngine | null>(null);
+  const [replayState, setReplayState] = useState<ReplayState>('idle');
+  const [replayPosition, setReplayPosition] = useState(0);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayCount, setReplayCount] = useState<number | null>(null); // chunks shown while replaying
   const connectingTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const abortRef = useRef<AbortController | null>(null); // cancels the current run's request
 
   // Axis active states
   const [axisActive, setAxisActive] = useState({
@@ -79,61 +133,146 @@ export default function Home() {
     setAxisActive(axes);
   };
 
-  // Detect patterns in text chunk (filtered by preset mode)
-  const detectPatterns = (text: string): string[] => {
-    const patterns: string[] = [];
+  // The server decides which models are allowed
+  const loadModels = () => {
+    fetch('/api/models')
+      .then((res) => res.json())
+      .then((data: { models: ModelOption[]; defaults: GenerationSettings; require_user_key?: boolean; archive?: boolean }) => {
+        setModels(data.models);
+        setRequireKey(data.require_user_key === true);
+        setArchiving(data.archive === true);
+        setSettings((current) => getModel(current.model, data.models) ? current : { ...current, model: data.defaults.model });
+      })
+      .catch((error) => console.error('Error loading models:', error));
+  };
+
+  useEffect(loadModels, []);
+  useEffect(() => setApiKey(localStorage.getItem(API_KEY_STORAGE) ?? ''), []);
+  useEffect(() => setCustomPatterns(loadCustomPatterns()), []);
+  useEffect(() => setSavedRouting(loadPresetRouting()), []);
+  useEffect(() => setMixer(loadMixer()), []);
+
+  // The audio engine follows the mixer
+  useEffect(() => audioRef.current?.updateMixerControls(mixer), [mixer]);
+
+  const handleMixerChange = (next: MixerControls) => {
+    setMixer(next);
+    saveMixer(next);
+  };
+
+  const getAxisLevels = useCallback(() => audioRef.current?.getAxisLevels() ?? null, []);
+
+  // Built-in patterns plus the user's own, for detection, highlighting and audio
+  const patterns = useMemo(() => withCustomPatterns(customPatterns), [customPatterns]);
+
+  // The preset's routing table drives the audio, live and exported
+  const routing = presetRouting(savedRouting, presetMode);
+
+  const handleRoutingChange = (next: RoutingMatrix) => {
+    const updated = { ...savedRouting, [presetMode]: next };
+    setSavedRouting(updated);
+    savePresetRouting(updated);
+  };
 
-    // Minimal mode: Only core patterns (certainty, revision, question)
-    if (presetMode === 'minimal') {
-      if (CERTAINTY_MARKERS.test(text)) patterns.push('certainty');
-      if (REVISION_MARKERS.test(text)) patterns.push('revision');
-      if (QUESTION_MARKER.test(text)) patterns.push('question');
-      return patterns;
+  const handleCustomPatternsChange = (next: CustomPattern[]) => {
+    setCustomPatterns(next);
+    saveCustomPatterns(next);
+    // Re-highlight the finished run with the new set
+    if (trace && !isStreaming) {
+      stopReplay();
+      setThinkingChunks(chunksFromTrace(trace, withCustomPatterns(next)));
     }
+  };
 
-    // Standard mode: All 11 patterns
-    if (UNCERTAINTY_MARKERS.test(text)) patterns.push('uncertainty');
-    if (CERTAINTY_MARKERS.test(text)) patterns.push('certainty');
-    if (REVISION_MARKERS.test(text)) patterns.push('revision');
-    if (QUESTION_MARKER.test(text)) patterns.push('question');
-    if (ENUMERATION_MARKERS.test(text)) patterns.push('enumeration');
-    if (EMPHASIS_MARKERS.test(text)) patterns.push('emphasis');
-    if (NEGATION_MARKERS.test(text)) patterns.push('negation');
-    if (CAUSATION_MARKERS.test(text)) patterns.push('causation');
-    if (HEDGING_MARKERS.test(text)) patterns.push('hedging');
-    if (COMPARISON_MARKERS.test(text)) patterns.push('comparison');
-    if (RESOLUTION_MARKERS.test(text)) patterns.push('resolution');
-
-    // Maximum mode: Same patterns but we'll show all matches visually (no filtering)
-    return patterns;
+  const handleApiKeyChange = (key: string) => {
+    setApiKey(key);
+    if (key) {
+      localStorage.setItem(API_KEY_STORAGE, key);
+    } else {
+      localStorage.removeItem(API_KEY_STORAGE);
+    }
   };
 
-  // Get color for pattern type
-  const getPatternColor = (pattern: string): string => {
-    const colors: Record<string, string> = {
-      uncertainty: 'bg-purple-200 text-purple-900',
-      certainty: 'bg-green-200 text-green-900',
-      revision: 'bg-red-200 text-red-900',
-      question: 'bg-blue-200 text-blue-900',
-      enumeration: 'bg-yellow-200 text-yellow-900',
-      emphasis: 'bg-orange-200 text-orange-900',
-      negation: 'bg-gray-300 text-gray-900',
-      causation: 'bg-indigo-200 text-indigo-900',
-      hedging: 'bg-pink-200 text-pink-900',
-      comparison: 'bg-cyan-200 text-cyan-900',
-      resolution: 'bg-emerald-200 text-emerald-900',
-    };
-    return colors[pattern] || '';
+  const settingsProblem = settingsError(settings, models);
+  const modelLabel = getModel(settings.model, models)?.label ?? settings.model;
+  const hasTemperature = acceptsTemperature(getModel(settings.model, models));
+
+  // Dispose any pending replay timers on unmount
+  useEffect(() => () => replayRef.current?.dispose(), []);
+
+  // Leaving the page stops the run, and with it the server's upstream request
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const stopReplay = () => {
+    replayRef.current?.dispose();
+    replayRef.current = null;
+    setReplayState('idle');
+    setReplayPosition(0);
+    setReplayCount(null);
   };
 
-  const handleRun = async () => {
-    if (!prompt.trim() || isStreaming) return;
-    
+  // Lazily create the replay engine for the current trace
+  const getReplay = (): ReplayEngine | null => {
+    if (!trace) return null;
+    if (!replayRef.current) {
+      replayRef.current = traceReplay(trace, chunksFromTrace(trace, patterns), () => audioRef.current, {
+        onShown: setReplayCount,
+        // Show the text and legend exactly as they were at the new position
+        onSeek: setAxisActive,
+        onStateChange: setReplayState,
+        onProgress: setReplayPosition,
+      });
+      replayRef.current.setSpeed(replaySpeed);
+    }
+    return replayRef.current;
+  };
+
+  const handleReplayPlay = () => {
+    const replay = getReplay();
+    if (!replay) return;
+    if (replay.getState() === 'idle' && replay.getPosition() === 0) {
+      audioRef.current?.reset();
+      setReplayCount(0);
+    }
+    audioRef.current?.startAudio();
+    replay.play();
+  };
+
+  const handleReplayPause = () => {
+    replayRef.current?.pause();
+    audioRef.current?.stopAudio();
+  };
+
+  const handleReplayStop = () => {
+    audioRef.current?.stopAudio();
+    stopReplay();
+  };
+
+  const handleReplaySeek = (positionMs: number) => {
+    getReplay()?.seek(positionMs);
+  };
+
+  const handleReplaySpeed = (speed: number) => {
+    setReplaySpeed(speed);
+    replayRef.current?.setSpeed(speed);
+  };
+
+  // Stream one turn; earlier turns are sent along so the model can continue from them
+  const runTurn = async (turnPrompt: string, priorTurns: ConversationTurn[]) => {
     setHasStarted(true);
     setIsStreaming(true);
     setThinkingChunks([]);
+    setHiddenOffsets([]);
     setAnswer('');
+    setTurnContent(null);
     setShowConnecting(false);
+    stopReplay();
+    setTrace(null);
+    setShareable(false);
+    detectorRef.current = new StreamingPatternDetector(patterns);
+    recorderRef.current = new TraceRecorder(turnPrompt);
+    const abort = new AbortController();
+    abortRef.current = abort;
     
     // Start audio after component has had time to render
     setTimeout(() => {
@@ -153,14 +292,21 @@ export default function Home() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(apiKey.trim() && { [API_KEY_HEADER]: apiKey.trim() }),
         },
         body: JSON.stringify({
-          prompt,
-          temperature,
-          model: 'claude-3-7-sonnet-20250219'
+          messages: buildMessages(priorTurns, turnPrompt),
+          temperature: hasTemperature ? temperature : 1,
+          ...settings,
+          preset: presetMode,
+          ...(useFixtures && { fixture: true }),
         }),
+        signal: abort.signal,
       });
 
+      if (!response.ok) {
+        throw await readApiError(response);
+      }
       if (!response.body) {
         throw new Error('No response body');
       }
@@ -169,12 +315,31 @@ export default function Home() {
       const decoder = new TextDecoder();
       let buffer = '';
 
+      // Markers that ended exactly at the last character of the thinking
+      const finishThinking = () => {
+        const remaining = detectorRef.current.flush();
+        if (remaining.length > 0) {
+          setThinkingChunks(prev => appendChunk(prev, null, remaining));
+          audioRef.current?.addDelta('', remaining);
+        }
+      };
+
       const processStream = async () => {
         try {
           while (true) {
             const { done, value } = await reader.read();
             
-            if (done) break;
+            if (done) {
+              // Keep the recording, whether the run finished or errored
+              if (recorderRef.current) {
+                const recorded = recorderRef.current.toTrace();
+                setTrace(recorded);
+                setShareable(archiving && hasContent(recorded));
+              }
+              // Also covers streams that closed without an `answer`
+              setIsStreaming(false);
+              break;
+            }
 
             buffer += decoder.decode(value, { stream: true });
             const lines = buffer.split('\n');
@@ -183,7 +348,8 @@ export default function Home() {
             for (const line of lines) {
               if (line.startsWith('data: ')) {
                 try {
-                  const eventData = JSON.parse(line.slice(6));
+                  const eventData: StreamEvent = JSON.parse(line.slice(6));
+                  recorderRef.current?.record(eventData);
                   
                   switch (eventData.type) {
                     case 'start':
@@ -196,23 +362,64 @@ export default function Home() {
                         clearTimeout(connectingTimeoutRef.current);
                         setShowConnecting(false);
                       }
-                      // Detect patterns and add chunk
-                      const patterns = detectPatterns(text_chunk);
-                      setThinkingChunks(prev => [...prev, { text: text_chunk, patterns }]);
-                      audioRef.current?.addDelta(text_chunk);
+                      // Detect patterns across chunk boundaries and add chunk
+                      const matches = detectorRef.current.push(text_chunk);
+                      setThinkingChunks(prev => appendChunk(prev, text_chunk, matches));
+                      audioRef.current?.addDelta(text_chunk, matches);
+                      break;
+
+                    case 'redacted_thinking':
+                      // No text to show: mark the spot and play the hidden-thought gesture
+                      if (connectingTimeoutRef.current) {
+                        clearTimeout(connectingTimeoutRef.current);
+                        setShowConnecting(false);
+                      }
+                      setHiddenOffsets(prev => [...prev, detectorRef.current.getLength()]);
+                      audioRef.current?.addHiddenThought();
+                      break;
+
+                    case 'block_stop':
+                      if (eventData.data.block_type === 'thinking') {
+                        finishThinking();
+                      }
+                      break;
+
+                    case 'answer_delta':
+                      // The answer starts once thinking is over; it plays in its own voice
+                      finishThinking();
+                      setAnswer(prev => prev + eventData.data.text_chunk);
+                      audioRef.current?.addAnswerDelta(eventData.data.text_chunk);
                       break;
 
                     case 'end':
+                      finishThinking();
                       audioRef.current?.startFlourish();
                       break;
-                      
+
                     case 'answer':
-                      // Show answer at flourish end (per spec)
-                      setTimeout(() => {
-                        setAnswer(eventData.data.answer);
-                        setIsStreaming(false);
-                      }, 3000);
+                      // The complete answer replaces the streamed text
+                      setAnswer(eventData.data.answer);
+                      setIsStreaming(false);
                       break;
+
+                    case 'turn':
+                      setTurnContent(eventData.data.content);
+                      break;
+
+                    case 'error': {
+                      // The run is over: wrap up the thinking and let the audio trail off
+                      if (connectingTimeoutRef.current) {
+                        clearTimeout(connectingTimeoutRef.current);
+                        setShowConnecting(false);
+                      }
+                      finishThinking();
+                      const message = `Error: ${streamErrorMessage(eventData.data.error, eventData.data.code)}`;
+                      // Keep any answer that streamed before the failure
+                      setAnswer(prev => [prev, message].filter(Boolean).join('\n\n'));
+                      audioRef.current?.fadeOut();
+                      setIsStreaming(false);
+                      break;
+                    }
                   }
                 } catch (parseError) {
                   console.error('Error parsing SSE data:', parseError);
@@ -221,6 +428,8 @@ export default function Home() {
             }
           }
         } catch (streamError) {
+          // Stopping the run aborts the read; handleStop has already cleaned up
+          if (abort.signal.aborted) return;
           console.error('Stream processing error:', streamError);
           setIsStreaming(false);
         }
@@ -229,15 +438,150 @@ export default function Home() {
       processStream();
 
     } catch (error) {
+      if (abort.signal.aborted) return;
       console.error('Error starting stream:', error);
-      setAnswer('Error: Failed to start the thinking process. Please try again.');
+      if (connectingTimeoutRef.current) {
+        clearTimeout(connectingTimeoutRef.current);
+        setShowConnecting(false);
+      }
+
+      // A rejected first prompt goes back to the start screen so it can be fixed
+      const isInputError = error instanceof ApiRequestError && (INPUT_ERROR_CODES.includes(error.code) || error.field === 'api_key');
+      if (isInputError && priorTurns.length === 0) {
+        audioRef.current?.stopAudio();
+        setHasStarted(false);
+        setShowAdvanced(error.field !== 'prompt');
+        setRequestError(error.message);
+        setIsStreaming(false);
+        if (error.code === 'unsupported_model') loadModels();
+        return;
+      }
+      if (error instanceof ApiRequestError && error.code === 'rate_limited') {
+        setAnswer(`Error: Too many runs from here. Try again in ${formatWait(error.retryAfter ?? 60)}.`);
+        setIsStreaming(false);
+        return;
+      }
+      if (error instanceof ApiRequestError && error.code === 'quota_exceeded') {
+        setAnswer(`Error: Today's token quota on this server is used up. It resets in ${formatWait(error.retryAfter ?? 3600)}, or add your own API key in Settings.`);
+        setIsStreaming(false);
+        return;
+      }
+      if (error instanceof ApiRequestError && error.code === 'missing_api_key') {
+        setAnswer(`Error: ${error.message}, then restart the server. Or turn on offline fixtures in Settings.`);
+        setIsStreaming(false);
+        return;
+      }
+      setAnswer(`Error: Failed to start the thinking process. ${error instanceof Error ? error.message : 'Please try again.'}`);
       setIsStreaming(false);
     }
   };
 
+  // Stop the current run: abort the request (the server then aborts its own),
+  // fade the audio out and keep what arrived so far as a cancelled trace
+  const handleStop = () => {
+    if (!isStreaming) return;
+    abortRef.current?.abort();
+    abortRef.current = null;
+    if (connectingTimeoutRef.current) {
+      clearTimeout(connectingTimeoutRef.current);
+      setShowConnecting(false);
+    }
+    audioRef.current?.fadeOut();
+
+    const recorder = recorderRef.current;
+    if (recorder) {
+      recorder.cancel();
+      const recorded = recorder.toTrace();
+      setTrace(recorded);
+      // Runs stopped before anything arrived aren't archived, so there's no page to link to
+      setShareable(archiving && hasContent(recorded));
+    }
+    setIsStreaming(false);
+  };
+
+  const handleRun = () => {
+    if (!prompt.trim() || isStreaming || settingsProblem) return;
+    setRequestError('');
+    setHistory([]);
+    runTurn(prompt, []);
+  };
+
+  // Ask a follow-up: the current turn moves into the history and a new section starts
+  const handleFollowUp = () => {
+    if (!followUp.trim() || isStreaming || !turnContent?.length || settingsProblem) return;
+    const turns = [...history, { prompt, content: turnContent, chunks: thinkingChunks, hidden: hiddenOffsets, answer }];
+    setHistory(turns);
+    setPrompt(followUp);
+    setFollowUp('');
+    runTurn(followUp, turns);
+  };
+
+  // Show a recorded trace as if it had just run
+  const showTrace = (loaded: ThoughtTrace, archived = false) => {
+    audioRef.current?.reset();
+    stopReplay();
+    setTraceError('');
+    setHistory([]);
+    setTurnContent(null);
+    setPrompt(loaded.prompt);
+    setTemperature(loaded.start.temperature);
+    setSettings((current) => ({
+      model: getModel(loaded.start.model, models) ? loaded.start.model : current.model,
+      max_tokens: loaded.start.max_tokens ?? current.max_tokens,
+      budget_tokens: loaded.start.budget_tokens ?? current.budget_tokens,
+    }));
+    setThinkingChunks(chunksFromTrace(loaded, patterns));
+    setHiddenOffsets(loaded.redacted.map((r) => r.offset));
+    // A run that failed mid-answer shows what streamed, then the error
+    const loadedError = loaded.error === null ? '' : `Error: ${streamErrorMessage(loaded.error, loaded.error_code)}`;
+    setAnswer([loaded.answer, loadedError].filter(Boolean).join('\n\n'));
+    setTrace(loaded);
+    setShareable(archived);
+    setHasStarted(true);
+  };
+
+  // Copy the run's permalink page
+  const handleCopyLink = async () => {
+    if (!trace) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/run/${trace.start.run_id}`);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
+
+  const handleLoadTrace = async (file: File) => {
+    try {
+      showTrace(parseTrace(await file.text()));
+    } catch (error) {
+      console.error('Error loading trace:', error);
+      setTraceError(error instanceof Error ? error.message : 'Could not load trace');
+    }
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file && !isStreaming) {
+      handleLoadTrace(file);
+    }
+  };
+
+  const shownChunks = replayCount === null ? thinkingChunks : thinkingChunks.slice(0, replayCount);
 
   return (
-    <div className="min-h-screen h-screen bg-stone-50 p-6 font-mono text-stone-900 overflow-hidden">
+    <div
+      className={`min-h-screen h-screen bg-stone-50 p-6 font-mono text-stone-900 overflow-hidden ${isDragging ? 'outline-2 outline-dashed outline-stone-800 -outline-offset-8' : ''}`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
       <div className="flex items-center justify-between mb-6 border-b border-stone-800 pb-2">
         <h1 className="text-xl font-bold">PROCESS THOUGHT</h1>
         <button
@@ -280,17 +624,40 @@ export default function Home() {
               </div>
 
               <p className="text-xs text-stone-600 border-t border-stone-300 pt-4 mt-4">
-                Using Claude 4.5 Sonnet with extended thinking. Audio synthesis via Tone.js.
+                Using {modelLabel} with extended thinking. Audio synthesis via Tone.js.
               </p>
             </div>
           </div>
         </div>
       )}
 
+      {showAnalytics && trace && (
+        <AnalyticsPanel trace={trace} patterns={patterns} onClose={() => setShowAnalytics(false)} />
+      )}
+
+      {showRoutingEditor && (
+        <RoutingEditor
+          preset={presetMode}
+          routing={routing}
+          onChange={handleRoutingChange}
+          onClose={() => setShowRoutingEditor(false)}
+        />
+      )}
+
+      {showPatternEditor && (
+        <PatternEditor
+          patterns={customPatterns}
+          onChange={handleCustomPatternsChange}
+          onClose={() => setShowPatternEditor(false)}
+        />
+      )}
+
       {/* Audio Engine (invisible) */}
       <ThoughtAudio
         ref={audioRef}
         temperature={temperature}
+        patterns={patterns}
+        routing={routing}
         onActiveAxesChange={handleActiveAxesChange}
       />
 
@@ -333,15 +700,62 @@ export default function Home() {
                   {showAdvanced ? '▼ Hide Settings' : '▶ Settings'}
                 </button>
 
+                <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  className="text-xs uppercase tracking-wide border border-stone-600 py-1 px-2 hover:bg-stone-800 hover:text-white transition-colors"
+                >
+                  {showHistory ? '▼ Hide History' : '▶ History'}
+                </button>
+
+                <Link
+                  href="/compare"
+                  className="text-xs uppercase tracking-wide border border-stone-600 py-1 px-2 hover:bg-stone-800 hover:text-white transition-colors"
+                  title="Run a prompt twice and hear the runs side by side"
+                >
+                  Compare
+                </Link>
+
                 <button
                   onClick={handleRun}
-                  disabled={!prompt.trim()}
+                  disabled={!prompt.trim() || settingsProblem !== null}
                   className="text-xs uppercase tracking-wide border border-stone-800 bg-stone-800 text-white py-1 px-2 hover:bg-white hover:text-stone-800 disabled:bg-stone-400 disabled:text-stone-200 disabled:cursor-not-allowed transition-colors"
                 >
                   Execute
                 </button>
+
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="text-xs uppercase tracking-wide border border-stone-600 py-1 px-2 hover:bg-stone-800 hover:text-white transition-colors"
+                  title="Load a recorded trace (or drop one anywhere on the page)"
+                >
+                  Load Trace
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleLoadTrace(file);
+                    e.target.value = '';
+                  }}
+                />
               </div>
 
+              {traceError && (
+                <p className="text-xs text-red-700 mt-2">{traceError}</p>
+              )}
+              {requestError && (
+                <p className="text-xs text-red-700 mt-2">{requestError}</p>
+              )}
+
+              {showHistory && (
+                <div className="border-t border-stone-300 pt-4 mt-4">
+                  <RunHistory models={models} onOpen={(run) => showTrace(run, true)} />
+                </div>
+              )}
+
               {showAdvanced && (
                 <div className="border-t border-stone-300 pt-4 mt-4">
                   <div className="mb-4">
@@ -385,23 +799,136 @@ export default function Home() {
                       {presetMode === 'standard' && 'All 11 linguistic patterns detected'}
                       {presetMode === 'maximum' && 'All patterns with full visual highlighting'}
                     </p>
+                    <button
+                      onClick={() => setShowRoutingEditor(true)}
+                      className="mt-2 text-xs uppercase tracking-wide border border-stone-600 py-1 px-2 hover:bg-stone-800 hover:text-white transition-colors"
+                    >
+                      Sound Routing
+                    </button>
+                  </div>
+
+                  <div className="mb-4">
+                    <label htmlFor="model" className="block text-xs font-semibold mb-2 uppercase tracking-wide">
+                      Model
+                    </label>
+                    <select
+                      id="model"
+                      value={settings.model}
+                      onChange={(e) => setSettings({ ...settings, model: e.target.value })}
+                      className="text-xs border border-stone-800 bg-white py-1 px-2"
+                    >
+                      {models.map((m) => (
+                        <option key={m.id} value={m.id}>{m.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="mb-4 flex gap-4 justify-center">
+                    <div>
+                      <label htmlFor="budget-tokens" className="block text-xs font-semibold mb-2 uppercase tracking-wide">
+                        Thinking Budget
+                      </label>
+                      <input
+                        id="budget-tokens"
+                        type="number"
+                        min={MIN_BUDGET_TOKENS}
+                        step={1000}
+                        value={settings.budget_tokens}
+                        onChange={(e) => setSettings({ ...settings, budget_tokens: parseInt(e.target.value, 10) || 0 })}
+                        className="w-28 text-xs border border-stone-300 bg-white py-1 px-2 focus:outline-none focus:border-stone-400"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="max-tokens" className="block text-xs font-semibold mb-2 uppercase tracking-wide">
+                        Max Tokens
+                      </label>
+                      <input
+                        id="max-tokens"
+                        type="number"
+                        min={MIN_BUDGET_TOKENS + 1}
+                        max={getModel(settings.model, models)?.maxOutputTokens}
+                        step={1000}
+                        value={settings.max_tokens}
+                        onChange={(e) => setSettings({ ...settings, max_tokens: parseInt(e.target.value, 10) || 0 })}
+                        className="w-28 text-xs border border-stone-300 bg-white py-1 px-2 focus:outline-none focus:border-stone-400"
+                      />
+                    </div>
                   </div>
+                  {settingsProblem && (
+                    <p className="text-xs text-red-700 -mt-2 mb-4">{settingsProblem.message}</p>
+                  )}
+                  {!settingsProblem && getModel(settings.model, models)?.provider === 'openai' && (
+                    <p className="text-xs text-stone-500 -mt-2 mb-4">
+                      OpenAI models show a reasoning summary; the budget sets effort (low below 4000, high from 16000)
+                    </p>
+                  )}
 
-                  <div>
-                    <label htmlFor="temperature" className="block text-xs font-semibold mb-2 uppercase tracking-wide">
-                      Temperature: {temperature}
+                  <div className="mb-4">
+                    <label htmlFor="api-key" className="block text-xs font-semibold mb-2 uppercase tracking-wide">
+                      Your API Key{requireKey ? '' : ' (optional)'}
                     </label>
                     <input
-                      id="temperature"
-                      type="range"
-                      min="0"
-                      max="1"
-                      step="0.1"
-                      value={temperature}
-                      onChange={(e) => setTemperature(parseFloat(e.target.value))}
-                      className="w-full accent-stone-800"
+                      id="api-key"
+                      type="password"
+                      autoComplete="off"
+                      spellCheck={false}
+                      value={apiKey}
+                      onChange={(e) => handleApiKeyChange(e.target.value)}
+                      placeholder="Key for the selected model's provider"
+                      className="w-72 text-xs border border-stone-300 bg-white py-1 px-2 focus:outline-none focus:border-stone-400"
                     />
+                    <p className="text-xs text-stone-500 mt-1">
+                      {requireKey ? 'This server needs your own key. ' : 'Used instead of the server\'s key. '}
+                      Kept in this browser and sent with each request; never logged.
+                    </p>
+                  </div>
+
+                  <div className="mb-4">
+                    <label className="inline-flex items-center gap-2 text-xs uppercase tracking-wide">
+                      <input
+                        type="checkbox"
+                        checked={useFixtures}
+                        onChange={(e) => setUseFixtures(e.target.checked)}
+                        className="accent-stone-800"
+                      />
+                      Offline Fixtures
+                    </label>
+                    <p className="text-xs text-stone-500 mt-1">
+                      Plays a recorded run instead of calling the API; no key needed
+                    </p>
+                  </div>
+
+                  <div className="mb-4">
+                    <button
+                      onClick={() => setShowPatternEditor(true)}
+                      className="text-xs uppercase tracking-wide border border-stone-600 py-1 px-2 hover:bg-stone-800 hover:text-white transition-colors"
+                    >
+                      Custom Patterns{customPatterns.length > 0 ? ` (${customPatterns.length})` : ''}
+                    </button>
+                    <p className="text-xs text-stone-500 mt-1">
+                      Your own keywords or regexes, highlighted and played on an axis
+                    </p>
                   </div>
+
+                  {hasTemperature ? (
+                    <div>
+                      <label htmlFor="temperature" className="block text-xs font-semibold mb-2 uppercase tracking-wide">
+                        Temperature: {temperature}
+                      </label>
+                      <input
+                        id="temperature"
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.1"
+                        value={temperature}
+                        onChange={(e) => setTemperature(parseFloat(e.target.value))}
+                        className="w-full accent-stone-800"
+                      />
+                    </div>
+                  ) : (
+                    <p className="text-xs text-stone-500">Temperature is fixed at 1 while this model thinks</p>
+                  )}
                 </div>
               )}
             </div>
@@ -412,7 +939,7 @@ export default function Home() {
             {/* Query - always visible, compact */}
             <div>
               <label htmlFor="prompt-display" className="block text-xs mb-1 uppercase tracking-wide text-stone-600">
-                Query
+                {history.length > 0 ? `Query · Turn ${history.length + 1}` : 'Query'}
               </label>
               <div className="bg-stone-100 border border-stone-300 p-3 text-sm font-mono">
                 {prompt}
@@ -420,94 +947,70 @@ export default function Home() {
             </div>
 
             {/* Thinking box */}
-            {(isStreaming || thinkingChunks.length > 0) && (
+            {(isStreaming || thinkingChunks.length > 0 || hiddenOffsets.length > 0 || history.length > 0) && (
               <div className="flex-1 flex gap-4 min-h-0">
                 {/* Thinking content - left side */}
                 <div className="flex-1 flex flex-col min-h-0">
                   <div className="flex items-center justify-between mb-1">
                     <label className="text-xs uppercase tracking-wide text-stone-600">
-                      {showConnecting ? 'Connecting...' : 'Thinking'}
+                      {showConnecting ? 'Connecting...' : trace?.cancelled ? 'Thinking · Stopped' : 'Thinking'}
                     </label>
+                    {isStreaming && (
+                      <button
+                        onClick={handleStop}
+                        className="text-xs uppercase tracking-wide border border-stone-800 py-0.5 px-2 hover:bg-stone-800 hover:text-white transition-colors"
+                        aria-label="Stop run"
+                      >
+                        ■ Stop
+                      </button>
+                    )}
                   </div>
                   <div className="flex-1 bg-white border border-stone-300 p-4 overflow-auto">
-                    <div className="text-sm font-mono leading-relaxed text-stone-700 whitespace-pre-wrap">
-                      {thinkingChunks.map((chunk, i) => {
-                        if (chunk.patterns.length === 0) {
-                          return <span key={i}>{chunk.text}</span>;
-                        }
-                        // Use the first (primary) pattern for color
-                        const primaryPattern = chunk.patterns[0];
-                        return (
-                          <span key={i} className={`${getPatternColor(primaryPattern)} px-0.5`} title={chunk.patterns.join(', ')}>
-                            {chunk.text}
-                          </span>
-                        );
-                      })}
-                    </div>
-                  </div>
-                </div>
-
-                {/* Legend - right side */}
-                <div className="w-80 flex flex-col min-h-0">
-                  <div className="flex-1 bg-white border border-stone-300 p-4 overflow-auto">
-                    <div className="space-y-4 text-xs">
-                      {/* CERTAINTY AXIS */}
-                      <div className={`pb-3 border-b border-stone-200 transition-colors ${axisActive.certainty ? 'bg-purple-50' : ''}`}>
-                        <div className={`font-bold uppercase tracking-wide mb-2 ${axisActive.certainty ? 'text-purple-700' : 'text-stone-700'}`}>
-                          Certainty
+                    {/* Earlier turns, each its own section */}
+                    {history.map((turn, i) => (
+                      <div key={i} className="mb-4 pb-4 border-b border-stone-200">
+                        <div className="text-xs uppercase tracking-wide text-stone-500 mb-2">
+                          Turn {i + 1} · {turn.prompt}
                         </div>
-                        <div className="flex flex-wrap gap-1">
-                          <span className="inline-block px-2 py-0.5 bg-purple-200 text-purple-900">uncertainty</span>
-                          <span className="inline-block px-2 py-0.5 bg-green-200 text-green-900">certainty</span>
-                          <span className="inline-block px-2 py-0.5 bg-pink-200 text-pink-900">hedging</span>
+                        <div className="text-sm font-mono leading-relaxed text-stone-500 whitespace-pre-wrap">
+                          <ThinkingText chunks={turn.chunks} hidden={turn.hidden} preset={presetMode} patterns={patterns} />
                         </div>
+                        {turn.answer && (
+                          <details className="mt-2 text-xs">
+                            <summary className="uppercase tracking-wide text-stone-600 cursor-pointer">Output</summary>
+                            <pre className="whitespace-pre-wrap font-mono leading-relaxed mt-1">{turn.answer}</pre>
+                          </details>
+                        )}
                       </div>
-
-                      {/* REASONING AXIS */}
-                      <div className={`pb-3 border-b border-stone-200 transition-colors ${axisActive.reasoning ? 'bg-blue-50' : ''}`}>
-                        <div className={`font-bold uppercase tracking-wide mb-2 ${axisActive.reasoning ? 'text-blue-700' : 'text-stone-700'}`}>
-                          Reasoning
-                        </div>
-                        <div className="flex flex-wrap gap-1">
-                          <span className="inline-block px-2 py-0.5 bg-indigo-200 text-indigo-900">causation</span>
-                          <span className="inline-block px-2 py-0.5 bg-yellow-200 text-yellow-900">enumeration</span>
-                          <span className="inline-block px-2 py-0.5 bg-cyan-200 text-cyan-900">comparison</span>
-                        </div>
-                      </div>
-
-                      {/* REVISION AXIS */}
-                      <div className={`pb-3 border-b border-stone-200 transition-colors ${axisActive.revision ? 'bg-red-50' : ''}`}>
-                        <div className={`font-bold uppercase tracking-wide mb-2 ${axisActive.revision ? 'text-red-700' : 'text-stone-700'}`}>
-                          Revision
-                        </div>
-                        <div className="flex flex-wrap gap-1">
-                          <span className="inline-block px-2 py-0.5 bg-red-200 text-red-900">revision</span>
-                          <span className="inline-block px-2 py-0.5 bg-gray-300 text-gray-900">negation</span>
-                          <span className="inline-block px-2 py-0.5 bg-blue-200 text-blue-900">question</span>
-                        </div>
-                      </div>
-
-                      {/* RESOLUTION AXIS */}
-                      <div className={`transition-colors ${axisActive.resolution ? 'bg-green-50' : ''}`}>
-                        <div className={`font-bold uppercase tracking-wide mb-2 ${axisActive.resolution ? 'text-green-700' : 'text-stone-700'}`}>
-                          Resolution
-                        </div>
-                        <div className="flex flex-wrap gap-1">
-                          <span className="inline-block px-2 py-0.5 bg-emerald-200 text-emerald-900">resolution</span>
-                          <span className="inline-block px-2 py-0.5 bg-orange-200 text-orange-900">emphasis</span>
-                        </div>
+                    ))}
+                    {history.length > 0 && (
+                      <div className="text-xs uppercase tracking-wide text-stone-500 mb-2">
+                        Turn {history.length + 1} · {prompt}
                       </div>
+                    )}
+                    <div className={`text-sm font-mono leading-relaxed text-stone-700 whitespace-pre-wrap transition-opacity duration-1000 ${trace?.cancelled ? 'opacity-50' : ''}`}>
+                      <ThinkingText chunks={shownChunks} hidden={hiddenOffsets} preset={presetMode} patterns={patterns} />
                     </div>
                   </div>
                 </div>
+
+                {/* Legend and mixer - right side */}
+                <div className="w-80 flex flex-col gap-4 min-h-0">
+                  <div className="flex-1 bg-white border border-stone-300 p-4 overflow-auto">
+                    <AxisLegend active={axisActive} />
+                  </div>
+                  <div className="bg-white border border-stone-300 p-4">
+                    <MixerPanel controls={mixer} onChange={handleMixerChange} getLevels={getAxisLevels} />
+                  </div>
+                </div>
               </div>
             )}
 
-            {/* Answer box - only visible when complete */}
+            {/* Answer box - fills in as the answer streams */}
             {answer && (
               <div className="flex-1 flex flex-col min-h-0">
                 <label className="text-xs mb-1 uppercase tracking-wide text-stone-600">
-                  Output
+                  {isStreaming ? 'Answering...' : trace?.cancelled ? 'Output · Stopped' : 'Output'}
                 </label>
                 <div className="flex-1 bg-white border border-stone-300 p-4 overflow-auto">
                   <pre className="whitespace-pre-wrap text-sm font-mono leading-relaxed">{answer}</pre>
@@ -515,31 +1018,82 @@ export default function Home() {
               </div>
             )}
 
-            {/* Run again button */}
-            {!isStreaming && answer && (
-              <div className="flex justify-center gap-2">
-                <button
-                  onClick={() => {
-                    if (audioRef.current && thinkingChunks.length > 0) {
-                      const textChunks = thinkingChunks.map(chunk => chunk.text);
-                      audioRef.current.replay(textChunks, 2.0);
-                    }
-                  }}
-                  className="text-xs uppercase tracking-wide border border-stone-800 py-1 px-3 hover:bg-stone-800 hover:text-white transition-colors"
-                >
-                  🔊 Replay Audio
-                </button>
-                <button
-                  onClick={() => {
-                    setHasStarted(false);
-                    setThinkingChunks([]);
-                    setAnswer('');
-                    setPrompt('');
-                  }}
-                  className="text-xs uppercase tracking-wide border border-stone-800 bg-stone-800 text-white py-1 px-3 hover:bg-white hover:text-stone-800 transition-colors"
-                >
-                  New Query
-                </button>
+            {/* Replay controls and run again button */}
+            {!isStreaming && (answer || trace) && (
+              <div className="flex flex-col items-center gap-2">
+                {/* A turn with nothing to send back can't be followed up */}
+                {turnContent && turnContent.length > 0 && (
+                  <div className="flex gap-2 w-full max-w-2xl">
+                    <input
+                      type="text"
+                      value={followUp}
+                      onChange={(e) => setFollowUp(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleFollowUp();
+                      }}
+                      className="flex-1 px-3 py-1 border border-stone-300 bg-white font-mono text-sm focus:outline-none focus:border-stone-400"
+                      placeholder="Ask a follow-up..."
+                    />
+                    <button
+                      onClick={handleFollowUp}
+                      disabled={!followUp.trim()}
+                      className="text-xs uppercase tracking-wide border border-stone-800 py-1 px-3 hover:bg-stone-800 hover:text-white disabled:border-stone-300 disabled:text-stone-400 disabled:hover:bg-transparent transition-colors"
+                    >
+                      Follow Up
+                    </button>
+                  </div>
+                )}
+                {trace && trace.deltas.length > 0 && (
+                  <ReplayControls
+                    state={replayState}
+                    positionMs={replayPosition}
+                    durationMs={Math.max(trace.end?.ms ?? 0, trace.deltas[trace.deltas.length - 1].t_rel_ms)}
+                    speed={replaySpeed}
+                    onPlay={handleReplayPlay}
+                    onPause={handleReplayPause}
+                    onStop={handleReplayStop}
+                    onSeek={handleReplaySeek}
+                    onSpeedChange={handleReplaySpeed}
+                  />
+                )}
+                {trace?.end && <RunStats end={trace.end} />}
+                <div className="flex justify-center gap-2">
+                  {trace && <ExportControls trace={trace} routing={routing} patterns={patterns} />}
+                  {trace && trace.deltas.length > 0 && (
+                    <button
+                      onClick={() => setShowAnalytics(true)}
+                      className="text-xs uppercase tracking-wide border border-stone-800 py-1 px-3 hover:bg-stone-800 hover:text-white transition-colors"
+                    >
+                      Analytics
+                    </button>
+                  )}
+                  {trace && shareable && (
+                    <button
+                      onClick={handleCopyLink}
+                      className="text-xs uppercase tracking-wide border border-stone-800 py-1 px-3 hover:bg-stone-800 hover:text-white transition-colors"
+                      title="Copy a link to this run's page"
+                    >
+                      {linkCopied ? 'Link Copied' : 'Copy Link'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      handleReplayStop();
+                      setHasStarted(false);
+                      setThinkingChunks([]);
+                      setHiddenOffsets([]);
+                      setAnswer('');
+                      setPrompt('');
+                      setTrace(null);
+                      setHistory([]);
+                      setTurnContent(null);
+                      setFollowUp('');
+                    }}
+                    className="text-xs uppercase tracking-wide border border-stone-800 bg-stone-800 text-white py-1 px-3 hover:bg-white hover:text-stone-800 transition-colors"
+                  >
+                    New Query
+                  </button>
+                </div>
               </div>
             )}
           </div>
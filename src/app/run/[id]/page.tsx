@@ -0,0 +1,55 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import RunView from '@/components/RunView';
+import { PATTERNS } from '@/utils/patternEngine';
+import { ArchivedRun, getRun } from '@/utils/runArchive';
+import { patternCounts } from '@/utils/thoughtScore';
+
+// Permalink page for one archived run, with a link preview of what it sounded like
+
+interface RunPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const TITLE_LENGTH = 70;
+const SUMMARY_PATTERNS = 4;
+
+const truncate = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+
+// "uncertainty ×12, revision ×5, causation ×3" — most frequent first
+const patternSummary = (run: ArchivedRun): string => {
+  const counts = patternCounts(run.trace);
+  return PATTERNS
+    .filter(({ id }) => counts.has(id))
+    .sort((a, b) => (counts.get(b.id) ?? 0) - (counts.get(a.id) ?? 0))
+    .slice(0, SUMMARY_PATTERNS)
+    .map(({ id }) => `${id} ×${counts.get(id)}`)
+    .join(', ');
+};
+
+export async function generateMetadata({ params }: RunPageProps): Promise<Metadata> {
+  const run = await getRun((await params).id);
+  if (!run) return { title: 'Run not found · Process Thought' };
+
+  const title = truncate(run.summary.prompt, TITLE_LENGTH);
+  const seconds = run.summary.duration_ms === null ? null : (run.summary.duration_ms / 1000).toFixed(1);
+  const patterns = patternSummary(run);
+  const description = [
+    `${run.summary.model}${seconds === null ? '' : `, ${seconds}s of thinking`}`,
+    patterns || 'no patterns detected',
+  ].join(' · ');
+
+  return {
+    title: `${title} · Process Thought`,
+    description,
+    openGraph: { title, description, type: 'article', siteName: 'Process Thought' },
+    twitter: { card: 'summary', title, description },
+  };
+}
+
+export default async function RunPage({ params }: RunPageProps) {
+  const run = await getRun((await params).id);
+  if (!run) notFound();
+  return <RunView trace={run.trace} preset={run.summary.preset ?? 'standard'} />;
+}
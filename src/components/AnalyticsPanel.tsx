@@ -0,0 +1,215 @@
+'use client';
+
+import { useMemo } from 'react';
+import { downloadBlob } from '@/utils/download';
+import { AXES, AnyPatternId, CognitiveAxis, PATTERNS, PatternDefinition } from '@/utils/patternEngine';
+import { ANALYSIS_METRICS, AnalysisMetric, analysisOverTime, analyticsCsv, analyzeRun } from '@/utils/runAnalytics';
+import { ThoughtTrace, traceBaseName } from '@/utils/trace';
+
+interface AnalyticsPanelProps {
+  trace: ThoughtTrace;
+  patterns?: PatternDefinition<AnyPatternId>[]; // custom patterns included
+  onClose: () => void;
+}
+
+const CHART_WIDTH = 1000;
+const LANE_HEIGHT = 14;
+const PLOT_HEIGHT = 120;
+const PLOT_SLICES = 40;
+
+// Same hues as the axis legend
+const AXIS_FILL: Record<CognitiveAxis, string> = {
+  certainty: 'fill-purple-400',
+  reasoning: 'fill-blue-400',
+  revision: 'fill-red-400',
+  resolution: 'fill-green-400',
+};
+
+const METRIC_STYLE: Record<AnalysisMetric, { label: string; stroke: string; swatch: string }> = {
+  complexity: { label: 'Complexity', stroke: 'stroke-stone-800', swatch: 'bg-stone-800' },
+  conceptDensity: { label: 'Concept density', stroke: 'stroke-indigo-500', swatch: 'bg-indigo-500' },
+  emotionalIntensity: { label: 'Emotional intensity', stroke: 'stroke-orange-500', swatch: 'bg-orange-500' },
+  logicalFlow: { label: 'Logical flow', stroke: 'stroke-cyan-600', swatch: 'bg-cyan-600' },
+  uncertainty: { label: 'Uncertainty', stroke: 'stroke-purple-500', swatch: 'bg-purple-500' },
+};
+
+// What the detected patterns add up to for one run: counts, when each axis was lit,
+// which patterns fire together and the mapper's thinking analysis over time
+export default function AnalyticsPanel({ trace, patterns = PATTERNS, onClose }: AnalyticsPanelProps) {
+  const analytics = useMemo(() => analyzeRun(trace, patterns), [trace, patterns]);
+  const series = useMemo(() => analysisOverTime(analytics, PLOT_SLICES), [analytics]);
+  const { duration, patternCounts, axisCounts, axisSpans, cooccurrence, revisionToResolution } = analytics;
+
+  const fired = analytics.patternIds.filter((id) => patternCounts[id] > 0);
+  const maxCount = Math.max(1, ...fired.map((id) => patternCounts[id]));
+  const maxPair = Math.max(1, ...fired.flatMap((a) => fired.filter((b) => b !== a).map((b) => cooccurrence[a][b])));
+  const patternClass = (id: AnyPatternId): string =>
+    patterns.find((pattern) => pattern.id === id)?.className || 'bg-stone-200 text-stone-900';
+  const x = (time: number) => (duration > 0 ? (time / duration) * CHART_WIDTH : 0);
+
+  const handleExport = () => {
+    downloadBlob(new Blob([analyticsCsv(analytics)], { type: 'text/csv' }), `${traceBaseName(trace)}-analytics.csv`);
+  };
+
+  const headingClass = 'font-bold uppercase tracking-wide mb-2';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-6" onClick={onClose}>
+      <div className="bg-white border-2 border-stone-800 max-w-4xl w-full max-h-[90vh] overflow-y-auto p-6 text-xs" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-4">
+          <h2 className="text-lg font-bold uppercase tracking-wide">Run Analytics</h2>
+          <div className="flex gap-2 items-center">
+            <button
+              onClick={handleExport}
+              className="text-xs uppercase tracking-wide border border-stone-800 py-1 px-3 hover:bg-stone-800 hover:text-white transition-colors"
+            >
+              Export CSV
+            </button>
+            <button onClick={onClose} className="text-2xl leading-none hover:text-stone-600" aria-label="Close analytics">
+              ×
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-6 mb-6">
+          <div>
+            <div className={headingClass}>Patterns</div>
+            {fired.length === 0 && <p className="text-stone-500">No patterns detected.</p>}
+            <div className="space-y-1">
+              {fired.map((id) => (
+                <div key={id} className="flex items-center gap-2">
+                  <span className={`w-28 px-2 py-0.5 ${patternClass(id)}`}>{id}</span>
+                  <div className="flex-1 bg-stone-100 h-2">
+                    <div className="bg-stone-800 h-2" style={{ width: `${(patternCounts[id] / maxCount) * 100}%` }} />
+                  </div>
+                  <span className="w-8 text-right tabular-nums">{patternCounts[id]}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className={headingClass}>Axes</div>
+            <dl className="space-y-1 mb-4">
+              {AXES.map((axis) => (
+                <div key={axis} className="flex justify-between">
+                  <dt className="capitalize">{axis}</dt>
+                  <dd className="tabular-nums">{axisCounts[axis]}</dd>
+                </div>
+              ))}
+            </dl>
+            <div className="flex justify-between border-t border-stone-200 pt-2" title="Revision markers for every resolution marker">
+              <span>Revision : resolution</span>
+              <span className="tabular-nums">{revisionToResolution === null ? '—' : `${revisionToResolution.toFixed(1)} : 1`}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="mb-6">
+          <div className={headingClass}>Axis Timeline</div>
+          <div className="flex gap-2">
+            <div className="flex flex-col text-stone-600 capitalize">
+              {AXES.map((axis) => (
+                <span key={axis} style={{ height: LANE_HEIGHT }} className="leading-none flex items-center">{axis}</span>
+              ))}
+            </div>
+            <svg
+              viewBox={`0 0 ${CHART_WIDTH} ${LANE_HEIGHT * AXES.length}`}
+              preserveAspectRatio="none"
+              className="flex-1 bg-stone-50 border border-stone-200"
+              style={{ height: LANE_HEIGHT * AXES.length }}
+              role="img"
+              aria-label="When each axis was active"
+            >
+              {axisSpans.map((span, i) => (
+                <rect
+                  key={i}
+                  x={x(span.start)}
+                  y={AXES.indexOf(span.axis) * LANE_HEIGHT + 2}
+                  width={Math.max(1, x(span.end) - x(span.start))}
+                  height={LANE_HEIGHT - 4}
+                  className={AXIS_FILL[span.axis]}
+                />
+              ))}
+            </svg>
+          </div>
+          <div className="flex justify-between text-stone-500 mt-1">
+            <span>0s</span>
+            <span>{duration.toFixed(1)}s</span>
+          </div>
+        </div>
+
+        <div className="mb-6">
+          <div className={headingClass}>Thinking Analysis</div>
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${PLOT_HEIGHT}`}
+            preserveAspectRatio="none"
+            className="w-full bg-stone-50 border border-stone-200"
+            style={{ height: PLOT_HEIGHT }}
+            role="img"
+            aria-label="Thinking analysis over time"
+          >
+            {ANALYSIS_METRICS.map((metric) => (
+              <polyline
+                key={metric}
+                fill="none"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+                className={METRIC_STYLE[metric].stroke}
+                points={series
+                  .flatMap(({ time, analysis }) => (analysis ? [`${x(time)},${PLOT_HEIGHT - analysis[metric] * PLOT_HEIGHT}`] : []))
+                  .join(' ')}
+              />
+            ))}
+          </svg>
+          <div className="flex flex-wrap gap-3 mt-1">
+            {ANALYSIS_METRICS.map((metric) => (
+              <span key={metric} className="inline-flex items-center gap-1">
+                <span className={`inline-block w-3 h-0.5 ${METRIC_STYLE[metric].swatch}`} />
+                {METRIC_STYLE[metric].label}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {fired.length > 1 && (
+          <div>
+            <div className={headingClass}>Co-occurrence</div>
+            <p className="text-stone-500 mb-2">Chunks in which both patterns fired; the diagonal counts chunks in which one did.</p>
+            <table className="tabular-nums">
+              <thead>
+                <tr>
+                  <th />
+                  {fired.map((id) => (
+                    <th key={id} className="font-normal px-1 pb-1 text-stone-600 [writing-mode:vertical-rl] rotate-180 text-left">{id}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {fired.map((a) => (
+                  <tr key={a}>
+                    <th className="font-normal text-right pr-2 text-stone-600">{a}</th>
+                    {fired.map((b) => {
+                      const count = cooccurrence[a][b];
+                      const shade = a === b ? 0 : count / maxPair;
+                      return (
+                        <td
+                          key={b}
+                          className={`w-7 h-7 text-center border border-stone-100 ${a === b ? 'text-stone-400' : shade > 0.5 ? 'text-white' : ''}`}
+                          style={{ backgroundColor: `rgba(41, 37, 36, ${shade * 0.9})` }}
+                          title={a === b ? `${a}: ${count} chunks` : `${a} + ${b}: ${count} chunks`}
+                        >
+                          {count || ''}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
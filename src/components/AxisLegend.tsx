@@ -0,0 +1,61 @@
+'use client';
+
+import { ActiveAxes } from '@/utils/patternEngine';
+
+interface AxisLegendProps {
+  active: ActiveAxes;
+}
+
+// The four cognitive axes and their patterns, each lit while its layers are sounding
+export default function AxisLegend({ active }: AxisLegendProps) {
+  return (
+    <div className="space-y-4 text-xs">
+      {/* CERTAINTY AXIS */}
+      <div className={`pb-3 border-b border-stone-200 transition-colors ${active.certainty ? 'bg-purple-50' : ''}`}>
+        <div className={`font-bold uppercase tracking-wide mb-2 ${active.certainty ? 'text-purple-700' : 'text-stone-700'}`}>
+          Certainty
+        </div>
+        <div className="flex flex-wrap gap-1">
+          <span className="inline-block px-2 py-0.5 bg-purple-200 text-purple-900">uncertainty</span>
+          <span className="inline-block px-2 py-0.5 bg-green-200 text-green-900">certainty</span>
+          <span className="inline-block px-2 py-0.5 bg-pink-200 text-pink-900">hedging</span>
+        </div>
+      </div>
+
+      {/* REASONING AXIS */}
+      <div className={`pb-3 border-b border-stone-200 transition-colors ${active.reasoning ? 'bg-blue-50' : ''}`}>
+        <div className={`font-bold uppercase tracking-wide mb-2 ${active.reasoning ? 'text-blue-700' : 'text-stone-700'}`}>
+          Reasoning
+        </div>
+        <div className="flex flex-wrap gap-1">
+          <span className="inline-block px-2 py-0.5 bg-indigo-200 text-indigo-900">causation</span>
+          <span className="inline-block px-2 py-0.5 bg-yellow-200 text-yellow-900">enumeration</span>
+          <span className="inline-block px-2 py-0.5 bg-cyan-200 text-cyan-900">comparison</span>
+        </div>
+      </div>
+
+      {/* REVISION AXIS */}
+      <div className={`pb-3 border-b border-stone-200 transition-colors ${active.revision ? 'bg-red-50' : ''}`}>
+        <div className={`font-bold uppercase tracking-wide mb-2 ${active.revision ? 'text-red-700' : 'text-stone-700'}`}>
+          Revision
+        </div>
+        <div className="flex flex-wrap gap-1">
+          <span className="inline-block px-2 py-0.5 bg-red-200 text-red-900">revision</span>
+          <span className="inline-block px-2 py-0.5 bg-gray-300 text-gray-900">negation</span>
+          <span className="inline-block px-2 py-0.5 bg-blue-200 text-blue-900">question</span>
+        </div>
+      </div>
+
+      {/* RESOLUTION AXIS */}
+      <div className={`transition-colors ${active.resolution ? 'bg-green-50' : ''}`}>
+        <div className={`font-bold uppercase tracking-wide mb-2 ${active.resolution ? 'text-green-700' : 'text-stone-700'}`}>
+          Resolution
+        </div>
+        <div className="flex flex-wrap gap-1">
+          <span className="inline-block px-2 py-0.5 bg-emerald-200 text-emerald-900">resolution</span>
+          <span className="inline-block px-2 py-0.5 bg-orange-200 text-orange-900">emphasis</span>
+        </div>
+      </div>
+    </div>
+  );
+}
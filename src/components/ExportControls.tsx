@@ -0,0 +1,97 @@
+'use client';
+
+import { useState } from 'react';
+import { downloadBlob } from '@/utils/download';
+import { encodeMidi } from '@/utils/midi';
+import { encodeMusicXml } from '@/utils/musicXml';
+import { renderStems, renderTrace } from '@/utils/renderAudio';
+import { AnyPatternId, PatternDefinition } from '@/utils/patternEngine';
+import { RoutingMatrix, scoreTrace } from '@/utils/thoughtScore';
+import { ThoughtTrace, downloadTrace, traceBaseName } from '@/utils/trace';
+import { encodeWav } from '@/utils/wav';
+
+interface ExportControlsProps {
+  trace: ThoughtTrace;
+  routing?: RoutingMatrix; // renders and scores use the routing the run is heard with
+  patterns?: PatternDefinition<AnyPatternId>[]; // and the patterns it's highlighted with, custom ones included
+}
+
+export default function ExportControls({ trace, routing, patterns }: ExportControlsProps) {
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [progress, setProgress] = useState('');
+  const [includeAxes, setIncludeAxes] = useState(false);
+
+  // Run one export at a time and surface failures inline
+  const runExport = async (label: string, task: () => Promise<void>) => {
+    if (busy) return;
+    setBusy(label);
+    setError('');
+    try {
+      await task();
+    } catch (err) {
+      console.error(`Error exporting ${label}:`, err);
+      setError(`${label} export failed: ${err instanceof Error ? err.message : 'unknown error'}`);
+    } finally {
+      setBusy(null);
+      setProgress('');
+    }
+  };
+
+  const handleExportWav = () => runExport('WAV', async () => {
+    const buffer = await renderTrace(trace, { routing, patterns });
+    downloadBlob(encodeWav(buffer), `${traceBaseName(trace)}.wav`);
+  });
+
+  const handleExportStems = () => runExport('Stems', async () => {
+    const zip = await renderStems(trace, {
+      includeAxes,
+      routing,
+      patterns,
+      onProgress: (done, total) => setProgress(`${done}/${total}`),
+    });
+    downloadBlob(zip, `${traceBaseName(trace)}-stems.zip`);
+  });
+
+  const handleExportMidi = () => runExport('MIDI', async () => {
+    const midi = encodeMidi(scoreTrace(trace, undefined, routing, patterns), trace.prompt.slice(0, 60) || 'Process Thought');
+    downloadBlob(new Blob([midi], { type: 'audio/midi' }), `${traceBaseName(trace)}.mid`);
+  });
+
+  const handleExportScore = () => runExport('Score', async () => {
+    const xml = encodeMusicXml(trace, { title: trace.prompt.slice(0, 60) || undefined, routing, patterns });
+    downloadBlob(new Blob([xml], { type: 'application/vnd.recordare.musicxml+xml' }), `${traceBaseName(trace)}.musicxml`);
+  });
+
+  const buttonClass = 'text-xs uppercase tracking-wide border border-stone-800 py-1 px-3 hover:bg-stone-800 hover:text-white transition-colors disabled:border-stone-300 disabled:text-stone-400 disabled:hover:bg-transparent disabled:cursor-wait';
+
+  return (
+    <>
+      <button onClick={() => downloadTrace(trace)} className={buttonClass}>
+        Download Trace
+      </button>
+      <button onClick={handleExportWav} disabled={busy !== null} className={buttonClass}>
+        {busy === 'WAV' ? 'Rendering…' : 'Export WAV'}
+      </button>
+      <button onClick={handleExportStems} disabled={busy !== null} className={buttonClass}>
+        {busy === 'Stems' ? `Rendering ${progress}…` : 'Export Stems'}
+      </button>
+      <button onClick={handleExportMidi} disabled={busy !== null} className={buttonClass}>
+        Export MIDI
+      </button>
+      <button onClick={handleExportScore} disabled={busy !== null} className={buttonClass}>
+        Export Score
+      </button>
+      <label className="text-xs flex items-center gap-1 text-stone-600" title="Add one stem per cognitive axis">
+        <input
+          type="checkbox"
+          checked={includeAxes}
+          onChange={(e) => setIncludeAxes(e.target.checked)}
+          className="accent-stone-800"
+        />
+        axis stems
+      </label>
+      {error && <span className="text-xs text-red-700 self-center">{error}</span>}
+    </>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { MixerControls, clearSolos, setVolume, toggleMute, toggleSolo } from '@/utils/mixer';
+import { AXES, CognitiveAxis } from '@/utils/patternEngine';
+import { AxisGains, gainToDb } from '@/utils/thoughtScore';
+
+interface MixerPanelProps {
+  controls: MixerControls;
+  onChange: (controls: MixerControls) => void;
+  getLevels: () => AxisGains | null; // null until the audio engine is ready
+  shortcuts?: boolean; // 1-4 solo an axis, shift mutes it, 0 clears the solos
+}
+
+const METER_FLOOR_DB = -48;
+
+const SILENT: AxisGains = { certainty: 0, reasoning: 0, revision: 0, resolution: 0 };
+
+// Same hues as the axis legend
+const AXIS_METER: Record<CognitiveAxis, string> = {
+  certainty: 'bg-purple-400',
+  reasoning: 'bg-blue-400',
+  revision: 'bg-red-400',
+  resolution: 'bg-green-400',
+};
+
+// Fraction of the meter lit for a linear level
+const meterFill = (level: number): number =>
+  level > 0 ? Math.min(1, Math.max(0, 1 - gainToDb(level) / METER_FLOOR_DB)) : 0;
+
+// Per-axis faders, mute and solo, with a live level meter for each
+export default function MixerPanel({ controls, onChange, getLevels, shortcuts = true }: MixerPanelProps) {
+  const [levels, setLevels] = useState<AxisGains>(SILENT);
+
+  // Poll the engine once a frame, re-rendering only when something moves
+  useEffect(() => {
+    let frame = 0;
+    let last = SILENT;
+    const tick = () => {
+      const next = getLevels() ?? SILENT;
+      if (AXES.some((axis) => next[axis] !== last[axis])) {
+        last = next;
+        setLevels(next);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [getLevels]);
+
+  useEffect(() => {
+    if (!shortcuts) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.repeat) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      // Match the physical key so Shift+1 still reads as 1
+      const digit = /^(?:Digit|Numpad)(\d)$/.exec(e.code)?.[1];
+      if (digit === undefined) return;
+      if (digit === '0') {
+        onChange(clearSolos(controls));
+      } else {
+        const axis = AXES[parseInt(digit, 10) - 1];
+        if (!axis) return;
+        onChange(e.shiftKey ? toggleMute(controls, axis) : toggleSolo(controls, axis));
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcuts, controls, onChange]);
+
+  const anySolo = AXES.some((axis) => controls[axis].solo);
+  const toggleClass = (on: boolean, onClass: string) =>
+    `w-6 border py-0.5 transition-colors ${on ? onClass : 'border-stone-300 text-stone-600 hover:border-stone-600'}`;
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="font-bold uppercase tracking-wide">Mixer</div>
+      {AXES.map((axis, i) => {
+        const { muted, solo, volume } = controls[axis];
+        const silenced = muted || (anySolo && !solo);
+        return (
+          <div key={axis} className={`transition-opacity ${silenced ? 'opacity-50' : ''}`}>
+            <div className="flex items-center gap-1 mb-1">
+              <span className="flex-1 uppercase tracking-wide">{axis}</span>
+              <span className="w-8 text-right tabular-nums text-stone-500">{volume}%</span>
+              <button
+                onClick={() => onChange(toggleMute(controls, axis))}
+                className={toggleClass(muted, 'border-stone-800 bg-stone-800 text-white')}
+                aria-pressed={muted}
+                aria-label={`Mute ${axis}`}
+                title={shortcuts ? `Mute ${axis} (Shift+${i + 1})` : `Mute ${axis}`}
+              >
+                M
+              </button>
+              <button
+                onClick={() => onChange(toggleSolo(controls, axis))}
+                className={toggleClass(solo, 'border-yellow-500 bg-yellow-300 text-stone-900')}
+                aria-pressed={solo}
+                aria-label={`Solo ${axis}`}
+                title={shortcuts ? `Solo ${axis} (${i + 1})` : `Solo ${axis}`}
+              >
+                S
+              </button>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              step="1"
+              value={volume}
+              onChange={(e) => onChange(setVolume(controls, axis, parseInt(e.target.value, 10)))}
+              className="w-full accent-stone-800"
+              aria-label={`${axis} volume`}
+            />
+            <div className="h-1.5 bg-stone-100" role="meter" aria-label={`${axis} level`} aria-valuemin={0} aria-valuemax={1} aria-valuenow={levels[axis]}>
+              <div className={`h-full ${AXIS_METER[axis]}`} style={{ width: `${meterFill(levels[axis]) * 100}%` }} />
+            </div>
+          </div>
+        );
+      })}
+      {shortcuts && (
+        <p className="text-stone-500">Keys 1–4 solo an axis, Shift mutes it, 0 clears the solos.</p>
+      )}
+    </div>
+  );
+}
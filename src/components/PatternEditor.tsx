@@ -0,0 +1,229 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import {
+  CustomPattern, HIGHLIGHT_COLORS, HIGHLIGHT_COLOR_NAMES, compileCustomPattern, customPatternError,
+  parseCustomPatterns, serializeCustomPatterns, withCustomPatterns,
+} from '@/utils/customPatterns';
+import { downloadBlob } from '@/utils/download';
+import { AXES, detectPatterns, segmentText } from '@/utils/patternEngine';
+
+interface PatternEditorProps {
+  patterns: CustomPattern[];
+  onChange: (patterns: CustomPattern[]) => void;
+  onClose: () => void;
+}
+
+const SAMPLE_TEXT = 'Let me verify this with an edge case. Maybe n = 0 is a counterexample? However, the base case handles it, so the proof holds.';
+
+const EMPTY_PATTERN: CustomPattern = { name: '', kind: 'keywords', source: '', color: 'lime', axis: 'revision' };
+
+// Add, edit and remove the user's own patterns, trying each against sample text as it's typed
+export default function PatternEditor({ patterns, onChange, onClose }: PatternEditorProps) {
+  const [draft, setDraft] = useState<CustomPattern>(EMPTY_PATTERN);
+  const [editing, setEditing] = useState<number | null>(null); // index being edited; null adds a new one
+  const [sample, setSample] = useState(SAMPLE_TEXT);
+  const [fileError, setFileError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const others = useMemo(() => patterns.filter((_, i) => i !== editing), [patterns, editing]);
+  const problem = useMemo(() => customPatternError(draft, others), [draft, others]);
+  const touched = draft.name !== '' || draft.source !== '';
+
+  // The sample as the highlighter would show it with the draft included
+  const preview = useMemo(() => {
+    const set = withCustomPatterns(problem ? others : [...others, draft]);
+    const matches = detectPatterns(sample, set);
+    const draftId = problem ? null : compileCustomPattern(draft).id;
+    return {
+      segments: segmentText(sample, matches),
+      classNames: new Map(set.map((pattern) => [pattern.id, pattern.className])),
+      draftMatches: matches.filter((match) => match.patternId === draftId).length,
+    };
+  }, [draft, others, problem, sample]);
+
+  const handleSave = () => {
+    if (problem) return;
+    const saved = { ...draft, name: draft.name.trim() };
+    onChange(editing === null ? [...patterns, saved] : patterns.map((p, i) => (i === editing ? saved : p)));
+    setDraft(EMPTY_PATTERN);
+    setEditing(null);
+  };
+
+  const handleEdit = (index: number) => {
+    setDraft(patterns[index]);
+    setEditing(index);
+  };
+
+  const handleDelete = (index: number) => {
+    onChange(patterns.filter((_, i) => i !== index));
+    if (editing === index) {
+      setDraft(EMPTY_PATTERN);
+      setEditing(null);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseCustomPatterns(await file.text());
+      // Imported patterns replace any of the same name
+      const names = new Set(imported.map((p) => p.name.toLowerCase()));
+      onChange([...patterns.filter((p) => !names.has(p.name.toLowerCase())), ...imported]);
+      setFileError('');
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : 'Could not import patterns');
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([serializeCustomPatterns(patterns)], { type: 'application/json' }), 'process-thought-patterns.json');
+  };
+
+  const inputClass = 'text-xs border border-stone-300 bg-white py-1 px-2 focus:outline-none focus:border-stone-400';
+  const buttonClass = 'text-xs uppercase tracking-wide border border-stone-800 py-1 px-3 hover:bg-stone-800 hover:text-white transition-colors';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-6" onClick={onClose}>
+      <div className="bg-white border-2 border-stone-800 max-w-2xl w-full max-h-[90vh] overflow-y-auto p-6 text-xs text-left" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-4">
+          <h2 className="text-lg font-bold uppercase tracking-wide">Custom Patterns</h2>
+          <button onClick={onClose} className="text-2xl leading-none hover:text-stone-600" aria-label="Close pattern editor">
+            ×
+          </button>
+        </div>
+
+        <p className="text-stone-600 mb-4">
+          Your own markers, highlighted alongside the built-in patterns and played on their axis. They&apos;re kept in this browser.
+        </p>
+
+        {/* Saved patterns */}
+        <ul className="divide-y divide-stone-200 border border-stone-300 mb-2">
+          {patterns.length === 0 && <li className="px-3 py-2 text-stone-500">No custom patterns yet.</li>}
+          {patterns.map((pattern, i) => (
+            <li key={pattern.name} className="flex items-center gap-2 px-3 py-2">
+              <span className={`px-2 py-0.5 ${HIGHLIGHT_COLORS[pattern.color]}`}>{pattern.name}</span>
+              <span className="text-stone-500 flex-1 truncate">
+                {pattern.axis} · {pattern.kind === 'regex' ? `/${pattern.source}/` : pattern.source.replace(/\n/g, ', ')}
+              </span>
+              <button onClick={() => handleEdit(i)} className="uppercase tracking-wide hover:underline">Edit</button>
+              <button onClick={() => handleDelete(i)} className="uppercase tracking-wide text-red-700 hover:underline">Delete</button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2 mb-6">
+          <button onClick={handleExport} disabled={patterns.length === 0} className={`${buttonClass} disabled:border-stone-300 disabled:text-stone-400 disabled:hover:bg-transparent`}>
+            Export JSON
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+            Import JSON
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {fileError && <p className="text-red-700 -mt-4 mb-4">{fileError}</p>}
+
+        {/* Draft */}
+        <div className="font-bold uppercase tracking-wide mb-2">{editing === null ? 'New Pattern' : `Edit ${patterns[editing].name}`}</div>
+        <div className="grid grid-cols-2 gap-3 mb-3">
+          <label className="flex flex-col gap-1">
+            <span className="uppercase tracking-wide text-stone-600">Name</span>
+            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} placeholder="counterexample" />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="uppercase tracking-wide text-stone-600">Axis</span>
+            <select value={draft.axis} onChange={(e) => setDraft({ ...draft, axis: e.target.value as CustomPattern['axis'] })} className={inputClass}>
+              {AXES.map((axis) => <option key={axis} value={axis}>{axis}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex gap-2 mb-2">
+          {(['keywords', 'regex'] as const).map((kind) => (
+            <button
+              key={kind}
+              onClick={() => setDraft({ ...draft, kind })}
+              className={`uppercase tracking-wide border py-1 px-3 transition-colors ${
+                draft.kind === kind ? 'border-stone-800 bg-stone-800 text-white' : 'border-stone-300 hover:border-stone-600'
+              }`}
+            >
+              {kind === 'keywords' ? 'Keywords' : 'Regex'}
+            </button>
+          ))}
+        </div>
+        <textarea
+          value={draft.source}
+          onChange={(e) => setDraft({ ...draft, source: e.target.value })}
+          className={`${inputClass} w-full h-20 font-mono resize-none mb-3`}
+          placeholder={draft.kind === 'keywords' ? 'counterexample\nedge case\nlet me verify' : '\\bO\\(n(\\^2| log n)?\\)'}
+          aria-label={draft.kind === 'keywords' ? 'Keywords, one per line' : 'Regular expression'}
+        />
+
+        <div className="flex flex-wrap gap-1 mb-3" role="radiogroup" aria-label="Highlight colour">
+          {HIGHLIGHT_COLOR_NAMES.map((color) => (
+            <button
+              key={color}
+              role="radio"
+              aria-checked={draft.color === color}
+              onClick={() => setDraft({ ...draft, color })}
+              className={`px-2 py-0.5 border-2 ${HIGHLIGHT_COLORS[color]} ${draft.color === color ? 'border-stone-800' : 'border-transparent'}`}
+            >
+              {color}
+            </button>
+          ))}
+        </div>
+
+        {touched && problem && <p className="text-red-700 mb-3">{problem.message}</p>}
+
+        {/* Live preview */}
+        <label className="block uppercase tracking-wide text-stone-600 mb-1" htmlFor="pattern-sample">
+          Sample Text{!problem && ` · ${preview.draftMatches} match${preview.draftMatches === 1 ? '' : 'es'}`}
+        </label>
+        <textarea
+          id="pattern-sample"
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          className={`${inputClass} w-full h-16 font-mono resize-none mb-2`}
+        />
+        <div className="bg-stone-50 border border-stone-200 p-3 font-mono leading-relaxed whitespace-pre-wrap mb-4">
+          {preview.segments.map((segment) => (
+            segment.matches.length === 0
+              ? <span key={segment.start}>{segment.text}</span>
+              : (
+                <span
+                  key={segment.start}
+                  className={`${preview.classNames.get(segment.matches[0].patternId) ?? ''} px-0.5`}
+                  title={segment.matches.map((m) => m.patternId).join(', ')}
+                >
+                  {segment.text}
+                </span>
+              )
+          ))}
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          {editing !== null && (
+            <button onClick={() => { setDraft(EMPTY_PATTERN); setEditing(null); }} className={buttonClass}>
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={problem !== null}
+            className="text-xs uppercase tracking-wide border border-stone-800 bg-stone-800 text-white py-1 px-3 hover:bg-white hover:text-stone-800 disabled:bg-stone-400 disabled:border-stone-400 disabled:text-stone-200 disabled:cursor-not-allowed transition-colors"
+          >
+            {editing === null ? 'Add Pattern' : 'Save Pattern'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
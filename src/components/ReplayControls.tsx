@@ -0,0 +1,82 @@
+'use client';
+
+import { REPLAY_SPEEDS, ReplayState } from '@/utils/replayEngine';
+
+interface ReplayControlsProps {
+  state: ReplayState;
+  positionMs: number;
+  durationMs: number;
+  speed: number;
+  onPlay: () => void;
+  onPause: () => void;
+  onStop: () => void;
+  onSeek: (positionMs: number) => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export default function ReplayControls({
+  state,
+  positionMs,
+  durationMs,
+  speed,
+  onPlay,
+  onPause,
+  onStop,
+  onSeek,
+  onSpeedChange,
+}: ReplayControlsProps) {
+  const buttonClass = 'text-xs uppercase tracking-wide border border-stone-800 py-1 px-3 hover:bg-stone-800 hover:text-white transition-colors';
+
+  return (
+    <div className="flex items-center gap-2 w-full max-w-2xl">
+      {state === 'playing' ? (
+        <button onClick={onPause} className={buttonClass} aria-label="Pause replay">
+          ❚❚ Pause
+        </button>
+      ) : (
+        <button onClick={onPlay} className={buttonClass} aria-label="Play replay">
+          ▶ {state === 'paused' ? 'Resume' : 'Replay'}
+        </button>
+      )}
+      <button
+        onClick={onStop}
+        disabled={state === 'idle'}
+        className={`${buttonClass} disabled:border-stone-300 disabled:text-stone-300 disabled:hover:bg-transparent`}
+        aria-label="Stop replay"
+      >
+        ■
+      </button>
+
+      <span className="text-xs tabular-nums text-stone-600">{formatTime(positionMs)}</span>
+      <input
+        type="range"
+        min={0}
+        max={durationMs}
+        step={10}
+        value={Math.min(positionMs, durationMs)}
+        onChange={(e) => onSeek(parseFloat(e.target.value))}
+        className="flex-1 accent-stone-800"
+        aria-label="Replay position"
+      />
+      <span className="text-xs tabular-nums text-stone-600">{formatTime(durationMs)}</span>
+
+      <select
+        value={speed}
+        onChange={(e) => onSpeedChange(parseFloat(e.target.value))}
+        className="text-xs border border-stone-800 bg-white py-1 px-1"
+        aria-label="Replay speed"
+      >
+        {REPLAY_SPEEDS.map((s) => (
+          <option key={s} value={s}>{s}x</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { PATTERNS, PresetMode } from '@/utils/patternEngine';
+import { MAX_ROUTE_GAIN_DB, MAX_ROUTE_OCTAVE, MIN_ROUTE_GAIN_DB, MIN_ROUTE_OCTAVE } from '@/utils/soundRouting';
+import {
+  DEFAULT_ROUTING, GESTURES, Gesture, LAYERS, LAYER_GAIN_DB, LayerName, Route, RoutingMatrix, RoutingSource,
+} from '@/utils/thoughtScore';
+
+interface RoutingEditorProps {
+  preset: PresetMode;
+  routing: RoutingMatrix;
+  onChange: (routing: RoutingMatrix) => void;
+  onClose: () => void;
+}
+
+const OCTAVES = Array.from({ length: MAX_ROUTE_OCTAVE - MIN_ROUTE_OCTAVE + 1 }, (_, i) => MIN_ROUTE_OCTAVE + i);
+
+const sourceLabel = (source: RoutingSource): string => (source === 'text' ? 'plain text' : source);
+
+const sourceClass = (source: RoutingSource): string =>
+  PATTERNS.find(({ id }) => id === source)?.className || 'bg-stone-200 text-stone-900';
+
+// The pattern-to-layer routing table for one preset: a row per pattern, a cell per
+// layer with its gesture, gain and octave
+export default function RoutingEditor({ preset, routing, onChange, onClose }: RoutingEditorProps) {
+  const setCell = (row: number, layer: LayerName, cell: Route | null) => {
+    onChange(routing.map((r, i) => {
+      if (i !== row) return r;
+      const routes = { ...r.routes };
+      if (cell) {
+        routes[layer] = cell;
+      } else {
+        delete routes[layer];
+      }
+      return { ...r, routes };
+    }));
+  };
+
+  // Swap a row with the one below; plain text stays last
+  const moveDown = (row: number) => {
+    const next = [...routing];
+    [next[row], next[row + 1]] = [next[row + 1], next[row]];
+    onChange(next);
+  };
+
+  const handleGesture = (row: number, layer: LayerName, value: string) => {
+    const current = routing[row].routes[layer];
+    if (!value) {
+      setCell(row, layer, null);
+    } else {
+      setCell(row, layer, { gain: LAYER_GAIN_DB[layer], octave: 0, ...current, gesture: value as Gesture });
+    }
+  };
+
+  const inputClass = 'text-xs border border-stone-300 bg-white py-0.5 px-1 focus:outline-none focus:border-stone-400';
+  const lastPattern = routing.findIndex(({ source }) => source === 'text') - 1;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-6" onClick={onClose}>
+      <div className="bg-white border-2 border-stone-800 max-w-5xl w-full max-h-[90vh] overflow-y-auto p-6 text-xs text-left" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-4">
+          <h2 className="text-lg font-bold uppercase tracking-wide">Sound Routing · {preset}</h2>
+          <div className="flex gap-2 items-center">
+            <button
+              onClick={() => onChange(DEFAULT_ROUTING)}
+              className="text-xs uppercase tracking-wide border border-stone-800 py-1 px-3 hover:bg-stone-800 hover:text-white transition-colors"
+            >
+              Reset to Default
+            </button>
+            <button onClick={onClose} className="text-2xl leading-none hover:text-stone-600" aria-label="Close sound routing">
+              ×
+            </button>
+          </div>
+        </div>
+
+        <p className="text-stone-600 mb-4">
+          Which layers each pattern plays on. On each layer the highest row whose pattern fired sounds, and plain text fills
+          any layer no pattern took. Gains are in dB before intensity; octaves shift from the chunk&apos;s pitch. Custom
+          patterns play as the row that leads their axis. Saved with the {preset} preset.
+        </p>
+
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="text-stone-600 uppercase tracking-wide">
+              <th className="text-left font-normal pb-2">Pattern</th>
+              {LAYERS.map((layer) => (
+                <th key={layer} className="text-left font-normal pb-2 px-1">{layer}</th>
+              ))}
+              <th className="pb-2"><span className="sr-only">Order</span></th>
+            </tr>
+          </thead>
+          <tbody>
+            {routing.map(({ source, routes }, row) => (
+              <tr key={source} className="border-t border-stone-200 align-top">
+                <td className="py-2 pr-2">
+                  <span className={`px-2 py-0.5 whitespace-nowrap ${sourceClass(source)}`}>{sourceLabel(source)}</span>
+                </td>
+                {LAYERS.map((layer) => {
+                  const cell = routes[layer];
+                  const label = `${sourceLabel(source)} on ${layer}`;
+                  return (
+                    <td key={layer} className={`py-2 px-1 ${cell ? 'bg-stone-50' : ''}`}>
+                      <select
+                        value={cell?.gesture ?? ''}
+                        onChange={(e) => handleGesture(row, layer, e.target.value)}
+                        className={`${inputClass} w-full`}
+                        aria-label={`Gesture for ${label}`}
+                      >
+                        <option value="">—</option>
+                        {GESTURES.map((gesture) => <option key={gesture} value={gesture}>{gesture}</option>)}
+                      </select>
+                      {cell && (
+                        <div className="flex gap-1 mt-1">
+                          <input
+                            type="number"
+                            min={MIN_ROUTE_GAIN_DB}
+                            max={MAX_ROUTE_GAIN_DB}
+                            step={1}
+                            value={cell.gain}
+                            onChange={(e) => {
+                              const gain = parseInt(e.target.value, 10);
+                              if (Number.isNaN(gain)) return;
+                              setCell(row, layer, { ...cell, gain: Math.min(MAX_ROUTE_GAIN_DB, Math.max(MIN_ROUTE_GAIN_DB, gain)) });
+                            }}
+                            className={`${inputClass} w-14 tabular-nums`}
+                            aria-label={`Gain in dB for ${label}`}
+                            title="Gain (dB)"
+                          />
+                          <select
+                            value={cell.octave}
+                            onChange={(e) => setCell(row, layer, { ...cell, octave: parseInt(e.target.value, 10) })}
+                            className={`${inputClass} w-12`}
+                            aria-label={`Octave for ${label}`}
+                            title="Octave"
+                          >
+                            {OCTAVES.map((octave) => (
+                              <option key={octave} value={octave}>{octave > 0 ? `+${octave}` : octave}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                    </td>
+                  );
+                })}
+                <td className="py-2 pl-1 whitespace-nowrap">
+                  {source !== 'text' && (
+                    <>
+                      <button
+                        onClick={() => moveDown(row - 1)}
+                        disabled={row === 0}
+                        className="px-1 hover:text-stone-600 disabled:text-stone-300"
+                        aria-label={`Move ${source} up`}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => moveDown(row)}
+                        disabled={row >= lastPattern}
+                        className="px-1 hover:text-stone-600 disabled:text-stone-300"
+                        aria-label={`Move ${source} down`}
+                      >
+                        ↓
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ModelOption } from '@/utils/models';
+import { PATTERNS, PatternId } from '@/utils/patternEngine';
+import { formatCost } from '@/utils/pricing';
+import type { ArchivedRun, RunPage } from '@/utils/runArchive';
+import { readApiError } from '@/utils/streamRequest';
+import { ThoughtTrace, parseTrace } from '@/utils/trace';
+
+interface RunHistoryProps {
+  models: ModelOption[];
+  onOpen: (trace: ThoughtTrace) => void;
+}
+
+const PAGE_SIZE = 10;
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Runs kept in the server's archive, newest first; opening one loads it for replay
+export default function RunHistory({ models, onOpen }: RunHistoryProps) {
+  const [runs, setRuns] = useState<RunPage | null>(null);
+  const [model, setModel] = useState('');
+  const [pattern, setPattern] = useState<PatternId | ''>('');
+  const [page, setPage] = useState(1);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const params = new URLSearchParams({ page: String(page), page_size: String(PAGE_SIZE) });
+    if (model) params.set('model', model);
+    if (pattern) params.set('pattern', pattern);
+
+    fetch(`/api/runs?${params}`)
+      .then(async (res) => {
+        if (!res.ok) throw await readApiError(res);
+        return res.json();
+      })
+      .then((data: RunPage) => {
+        setRuns(data);
+        setError('');
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not load runs'));
+  }, [model, pattern, page]);
+
+  const open = async (runId: string) => {
+    try {
+      const res = await fetch(`/api/runs/${runId}`);
+      if (!res.ok) throw await readApiError(res);
+      const run: ArchivedRun = await res.json();
+      onOpen(parseTrace(JSON.stringify(run.trace)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open run');
+    }
+  };
+
+  const selectClass = 'text-xs border border-stone-300 bg-white py-1 px-2';
+  const pageCount = runs ? Math.max(1, Math.ceil(runs.total / PAGE_SIZE)) : 1;
+
+  return (
+    <div className="text-left">
+      <div className="flex gap-2 mb-2">
+        <select value={model} onChange={(e) => { setModel(e.target.value); setPage(1); }} className={selectClass} aria-label="Filter by model">
+          <option value="">All models</option>
+          {models.map((m) => <option key={m.id} value={m.id}>{m.label}</option>)}
+        </select>
+        <select value={pattern} onChange={(e) => { setPattern(e.target.value as PatternId | ''); setPage(1); }} className={selectClass} aria-label="Filter by dominant pattern">
+          <option value="">Any pattern</option>
+          {PATTERNS.map((p) => <option key={p.id} value={p.id}>{p.id}</option>)}
+        </select>
+      </div>
+
+      {error && <p className="text-xs text-red-700 mb-2">{error}</p>}
+      {runs && runs.runs.length === 0 && <p className="text-xs text-stone-500">No runs yet.</p>}
+
+      <ul className="divide-y divide-stone-200 border border-stone-300 bg-white">
+        {runs?.runs.map((run) => (
+          <li key={run.run_id}>
+            <button
+              onClick={() => open(run.run_id)}
+              className="w-full text-left px-3 py-2 hover:bg-stone-50 transition-colors"
+            >
+              <div className="text-xs font-mono truncate">{run.prompt}</div>
+              <div className="text-xs text-stone-500 flex gap-3">
+                <span>{formatDate(run.recorded_at)}</span>
+                <span>{run.model}</span>
+                {run.dominant_pattern && <span>{run.dominant_pattern}</span>}
+                {run.duration_ms !== null && <span>{(run.duration_ms / 1000).toFixed(1)}s</span>}
+                {run.cost_usd !== null && <span>{formatCost(run.cost_usd)}</span>}
+                {run.status !== 'complete' && <span className="uppercase">{run.status}</span>}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {runs && runs.total > PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-2 text-xs">
+          <button onClick={() => setPage(page - 1)} disabled={page <= 1} className="uppercase tracking-wide disabled:text-stone-300">
+            ← Newer
+          </button>
+          <span className="text-stone-500">Page {page} of {pageCount}</span>
+          <button onClick={() => setPage(page + 1)} disabled={page >= pageCount} className="uppercase tracking-wide disabled:text-stone-300">
+            Older →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { formatCost } from '@/utils/pricing';
+import { EndEventData } from '@/utils/streamEvents';
+
+interface RunStatsProps {
+  end: EndEventData;
+}
+
+const formatCount = (count: number): string => count.toLocaleString('en-US');
+
+// Post-run figures from the `end` event: duration, throughput, tokens and cost
+export default function RunStats({ end }: RunStatsProps) {
+  const { usage } = end;
+  const seconds = end.ms / 1000;
+  const tokensPerSecond = seconds > 0 ? end.tokens_out / seconds : 0;
+
+  const stats: { label: string; value: string; title?: string }[] = [
+    { label: 'Duration', value: `${seconds.toFixed(1)}s` },
+    { label: 'Output', value: `${formatCount(end.tokens_out)} tok`, title: usage ? undefined : 'Estimated from text length' },
+    { label: 'Speed', value: `${tokensPerSecond.toFixed(1)} tok/s` },
+  ];
+  if (usage) {
+    stats.push(
+      {
+        label: 'Thinking',
+        value: `${usage.thinking_estimated ? '~' : ''}${formatCount(usage.thinking_tokens)} tok`,
+        title: usage.thinking_estimated ? 'Estimated from the share of thinking text' : undefined,
+      },
+      {
+        label: 'Input',
+        value: `${formatCount(usage.input_tokens + usage.cache_creation_input_tokens + usage.cache_read_input_tokens)} tok`,
+        title: usage.cache_read_input_tokens > 0 ? `${formatCount(usage.cache_read_input_tokens)} read from cache` : undefined,
+      }
+    );
+  }
+  if (end.cost_usd !== undefined) {
+    stats.push({ label: 'Cost', value: end.cost_usd === null ? '—' : formatCost(end.cost_usd), title: end.cost_usd === null ? 'No price for this model' : undefined });
+  }
+
+  return (
+    <dl className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-xs text-stone-600" aria-label="Run stats">
+      {stats.map((stat) => (
+        <div key={stat.label} className="flex gap-1" title={stat.title}>
+          <dt className="uppercase tracking-wide">{stat.label}</dt>
+          <dd className="tabular-nums text-stone-800">{stat.value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import AnalyticsPanel from '@/components/AnalyticsPanel';
+import AxisLegend from '@/components/AxisLegend';
+import ExportControls from '@/components/ExportControls';
+import MixerPanel from '@/components/MixerPanel';
+import ReplayControls from '@/components/ReplayControls';
+import RunStats from '@/components/RunStats';
+import ThinkingText from '@/components/ThinkingText';
+import ThoughtAudio, { ThoughtAudioRef } from '@/components/ThoughtAudio';
+import { CustomPattern, loadCustomPatterns, withCustomPatterns } from '@/utils/customPatterns';
+import { DEFAULT_MIXER, MixerControls, loadMixer, saveMixer } from '@/utils/mixer';
+import { ActiveAxes, PresetMode } from '@/utils/patternEngine';
+import { loadPresetRouting, presetRouting } from '@/utils/soundRouting';
+import { ReplayEngine, ReplayState, traceReplay } from '@/utils/replayEngine';
+import { streamErrorMessage } from '@/utils/streamRequest';
+import { chunksFromTrace } from '@/utils/textChunks';
+import { DEFAULT_ROUTING } from '@/utils/thoughtScore';
+import { ThoughtTrace } from '@/utils/trace';
+
+// A fixed locale and time zone, so the server render and the browser agree
+const formatRunDate = (iso: string): string =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+interface RunViewProps {
+  trace: ThoughtTrace;
+  preset: PresetMode;
+}
+
+const NO_AXES: ActiveAxes = { certainty: false, reasoning: false, revision: false, resolution: false };
+
+// One archived run laid out like the live page, replayed through the audio on its original timeline
+export default function RunView({ trace, preset }: RunViewProps) {
+  // The viewer's own custom patterns apply here too
+  const [customPatterns, setCustomPatterns] = useState<CustomPattern[]>([]);
+  const patterns = useMemo(() => withCustomPatterns(customPatterns), [customPatterns]);
+  const chunks = useMemo(() => chunksFromTrace(trace, patterns), [trace, patterns]);
+  // Heard through the viewer's routing for the run's preset
+  const [routing, setRouting] = useState(DEFAULT_ROUTING);
+  const audioRef = useRef<ThoughtAudioRef>(null);
+  const replayRef = useRef<ReplayEngine | null>(null);
+  const [axisActive, setAxisActive] = useState<ActiveAxes>(NO_AXES);
+  const [replayState, setReplayState] = useState<ReplayState>('idle');
+  const [replayPosition, setReplayPosition] = useState(0);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayCount, setReplayCount] = useState<number | null>(null); // chunks shown while replaying
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [mixer, setMixer] = useState<MixerControls>(DEFAULT_MIXER);
+
+  useEffect(() => setCustomPatterns(loadCustomPatterns()), []);
+  useEffect(() => setRouting(presetRouting(loadPresetRouting(), preset)), [preset]);
+  useEffect(() => setMixer(loadMixer()), []);
+  useEffect(() => audioRef.current?.updateMixerControls(mixer), [mixer]);
+
+  const handleMixerChange = (next: MixerControls) => {
+    setMixer(next);
+    saveMixer(next);
+  };
+
+  const getAxisLevels = useCallback(() => audioRef.current?.getAxisLevels() ?? null, []);
+
+  // Dispose any pending replay timers on unmount
+  useEffect(() => () => replayRef.current?.dispose(), []);
+
+  const getReplay = (): ReplayEngine => {
+    if (!replayRef.current) {
+      replayRef.current = traceReplay(trace, chunks, () => audioRef.current, {
+        onShown: setReplayCount,
+        onSeek: setAxisActive,
+        onStateChange: setReplayState,
+        onProgress: setReplayPosition,
+      });
+      replayRef.current.setSpeed(replaySpeed);
+    }
+    return replayRef.current;
+  };
+
+  const handlePlay = () => {
+    const replay = getReplay();
+    if (replay.getState() === 'idle' && replay.getPosition() === 0) {
+      audioRef.current?.reset();
+      setReplayCount(0);
+    }
+    audioRef.current?.startAudio();
+    replay.play();
+  };
+
+  const handlePause = () => {
+    replayRef.current?.pause();
+    audioRef.current?.stopAudio();
+  };
+
+  const handleStop = () => {
+    audioRef.current?.stopAudio();
+    replayRef.current?.dispose();
+    replayRef.current = null;
+    setReplayState('idle');
+    setReplayPosition(0);
+    setReplayCount(null);
+  };
+
+  const handleSpeed = (speed: number) => {
+    setReplaySpeed(speed);
+    replayRef.current?.setSpeed(speed);
+  };
+
+  const shownChunks = replayCount === null ? chunks : chunks.slice(0, replayCount);
+  const error = trace.error === null ? '' : `Error: ${streamErrorMessage(trace.error, trace.error_code)}`;
+  const answer = [trace.answer, error].filter(Boolean).join('\n\n');
+  const lastDelta = trace.deltas[trace.deltas.length - 1];
+
+  return (
+    <div className="min-h-screen h-screen bg-stone-50 p-6 font-mono text-stone-900 overflow-hidden">
+      <div className="flex items-center justify-between mb-6 border-b border-stone-800 pb-2">
+        <h1 className="text-xl font-bold">
+          <Link href="/">PROCESS THOUGHT</Link>
+        </h1>
+        <span className="text-xs uppercase tracking-wide text-stone-600">
+          {trace.start.model} · <time dateTime={trace.recorded_at}>{formatRunDate(trace.recorded_at)}</time>
+        </span>
+      </div>
+
+      {showAnalytics && <AnalyticsPanel trace={trace} patterns={patterns} onClose={() => setShowAnalytics(false)} />}
+
+      {/* Audio Engine (invisible) */}
+      <ThoughtAudio
+        ref={audioRef}
+        temperature={trace.start.temperature}
+        patterns={patterns}
+        routing={routing}
+        onActiveAxesChange={setAxisActive}
+      />
+
+      <div className="h-[calc(100vh-120px)] flex flex-col gap-4">
+        <div>
+          <label htmlFor="prompt-display" className="block text-xs mb-1 uppercase tracking-wide text-stone-600">
+            Query
+          </label>
+          <div id="prompt-display" className="bg-stone-100 border border-stone-300 p-3 text-sm font-mono">
+            {trace.prompt}
+          </div>
+        </div>
+
+        <div className="flex-1 flex gap-4 min-h-0">
+          <div className="flex-1 flex flex-col min-h-0">
+            <label className="text-xs mb-1 uppercase tracking-wide text-stone-600">
+              {trace.cancelled ? 'Thinking · Stopped' : 'Thinking'}
+            </label>
+            <div className={`flex-1 bg-white border border-stone-300 p-4 overflow-auto text-sm font-mono leading-relaxed text-stone-700 whitespace-pre-wrap ${trace.cancelled ? 'opacity-50' : ''}`}>
+              <ThinkingText chunks={shownChunks} hidden={trace.redacted.map((r) => r.offset)} preset={preset} patterns={patterns} />
+            </div>
+          </div>
+
+          <div className="w-80 flex flex-col gap-4 min-h-0">
+            <div className="flex-1 bg-white border border-stone-300 p-4 overflow-auto">
+              <AxisLegend active={axisActive} />
+            </div>
+            <div className="bg-white border border-stone-300 p-4">
+              <MixerPanel controls={mixer} onChange={handleMixerChange} getLevels={getAxisLevels} />
+            </div>
+          </div>
+        </div>
+
+        {answer && (
+          <div className="flex-1 flex flex-col min-h-0">
+            <label className="text-xs mb-1 uppercase tracking-wide text-stone-600">
+              {trace.cancelled ? 'Output · Stopped' : 'Output'}
+            </label>
+            <div className="flex-1 bg-white border border-stone-300 p-4 overflow-auto">
+              <pre className="whitespace-pre-wrap text-sm font-mono leading-relaxed">{answer}</pre>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col items-center gap-2">
+          {lastDelta && (
+            <ReplayControls
+              state={replayState}
+              positionMs={replayPosition}
+              durationMs={Math.max(trace.end?.ms ?? 0, lastDelta.t_rel_ms)}
+              speed={replaySpeed}
+              onPlay={handlePlay}
+              onPause={handlePause}
+              onStop={handleStop}
+              onSeek={(positionMs) => getReplay().seek(positionMs)}
+              onSpeedChange={handleSpeed}
+            />
+          )}
+          {trace.end && <RunStats end={trace.end} />}
+          <div className="flex justify-center gap-2">
+            <ExportControls trace={trace} routing={routing} patterns={patterns} />
+            {lastDelta && (
+              <button
+                onClick={() => setShowAnalytics(true)}
+                className="text-xs uppercase tracking-wide border border-stone-800 py-1 px-3 hover:bg-stone-800 hover:text-white transition-colors"
+              >
+                Analytics
+              </button>
+            )}
+            <Link
+              href="/"
+              className="text-xs uppercase tracking-wide border border-stone-800 bg-stone-800 text-white py-1 px-3 hover:bg-white hover:text-stone-800 transition-colors"
+            >
+              New Query
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { AnyPatternId, PATTERNS, PRESET_PATTERNS, PatternDefinition, PresetMode, isCustomPatternId, segmentText } from '@/utils/patternEngine';
+import { TextChunk } from '@/utils/textChunks';
+
+interface ThinkingTextProps {
+  chunks: TextChunk[];
+  hidden: number[]; // offsets where redacted thinking interrupted the text
+  preset: PresetMode;
+  patterns?: PatternDefinition<AnyPatternId>[]; // for highlight colours; custom ones included
+}
+
+// Thinking text with the exact trigger words highlighted, and a marker wherever
+// redacted thinking interrupted it
+export default function ThinkingText({ chunks, hidden, preset, patterns = PATTERNS }: ThinkingTextProps) {
+  const text = chunks.map(chunk => chunk.text).join('');
+  // Only highlight the patterns enabled by the preset mode; custom ones always show
+  const matches = chunks
+    .flatMap(chunk => chunk.matches)
+    .filter(({ patternId }) => isCustomPatternId(patternId) || PRESET_PATTERNS[preset].includes(patternId));
+  const breaks = hidden.filter((offset) => offset <= text.length).sort((a, b) => a - b);
+
+  return [...breaks, text.length].flatMap((end, i) => {
+    const start = i === 0 ? 0 : breaks[i - 1];
+    const spans = segmentText(text.slice(start, end), matches, start).map((segment) => {
+      if (segment.matches.length === 0) {
+        return <span key={segment.start}>{segment.text}</span>;
+      }
+      // Colour by the first pattern
+      const primaryPattern = patterns.find((pattern) => pattern.id === segment.matches[0].patternId);
+      return (
+        <span
+          key={segment.start}
+          className={`${primaryPattern?.className ?? ''} px-0.5`}
+          title={segment.matches.map(m => m.patternId).join(', ')}
+        >
+          {segment.text}
+        </span>
+      );
+    });
+    if (i === breaks.length) return spans;
+    return [
+      ...spans,
+      <span
+        key={`hidden-${i}`}
+        className="inline-block mx-1 px-2 bg-stone-800 text-stone-300 italic select-none"
+        title="Redacted thinking: this reasoning was encrypted by safety systems and can't be shown"
+      >
+        ░░ hidden thought ░░
+      </span>,
+    ];
+  });
+}
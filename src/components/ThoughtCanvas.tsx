@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useRef, useCallback, forwardRef, useImperativeHandle } from 'react';
+import { PatternMatch, detectPatterns, detectPhase as detectPhaseFromMatches } from '@/utils/patternEngine';
 
 interface Particle {
   x: number;
@@ -35,7 +36,7 @@ interface FlowField {
 
 export interface ThoughtCanvasRef {
   startAnimation: () => void;
-  addDelta: (text: string, tokenRate?: number) => void;
+  addDelta: (text: string, tokenRate?: number, matches?: PatternMatch[]) => void;
   startFlourish: () => void;
   stopAnimation: () => void;
   reset: () => void;
@@ -75,36 +76,9 @@ const ThoughtCanvas = forwardRef<ThoughtCanvasRef, ThoughtCanvasProps>(
     const prefersReducedMotion = typeof window !== 'undefined' &&
       window.matchMedia('(prefers-reduced-motion: reduce)').matches;
 
-    // Phase detection based on text patterns
-    const detectPhase = useCallback((text: string): { phase: string; intensity: number; trigger?: string } => {
-      const lower = text.toLowerCase();
-
-      // Uncertainty/Question phase - exploring, uncertain
-      const questionMatch = lower.match(/(what|how|why|could|might|maybe|perhaps|possibly|wonder|consider|seems|appears)/i);
-      if (questionMatch) {
-        return { phase: 'questioning', intensity: 0.8, trigger: questionMatch[0] };
-      }
-
-      // Backtracking - reconsidering, reversing
-      const backtrackMatch = lower.match(/(actually|wait|however|but|although|on the other hand|reconsider)/i);
-      if (backtrackMatch) {
-        return { phase: 'backtracking', intensity: 1.0, trigger: backtrackMatch[0] };
-      }
-
-      // Analysis/Reasoning - working through logic
-      const reasoningMatch = lower.match(/(because|since|therefore|thus|given|if|then|step|first|second|analyze)/i);
-      if (reasoningMatch) {
-        return { phase: 'reasoning', intensity: 0.6, trigger: reasoningMatch[0] };
-      }
-
-      // Certainty/Conclusion - arriving at answer
-      const conclusionMatch = lower.match(/(clearly|obviously|certainly|must|definitely|conclude|answer|solution|result)/i);
-      if (conclusionMatch) {
-        return { phase: 'concluding', intensity: 0.9, trigger: conclusionMatch[0] };
-      }
-
-      // Default: thinking phase
-      return { phase: 'thinking', intensity: 0.5 };
+    // Phase detection based on the shared pattern engine
+    const detectPhase = useCallback((text: string, matches?: PatternMatch[]) => {
+      return detectPhaseFromMatches(matches ?? detectPatterns(text));
     }, []);
 
     const generateFlowField = useCallback((width: number, height: number, phase: string = 'idle') => {
@@ -540,7 +514,7 @@ const ThoughtCanvas = forwardRef<ThoughtCanvasRef, ThoughtCanvasProps>(
         animationRef.current = requestAnimationFrame(animate);
       },
 
-      addDelta: (text: string) => {
+      addDelta: (text: string, _tokenRate?: number, matches?: PatternMatch[]) => {
         const canvas = canvasRef.current;
         if (!canvas) return;
 
@@ -590,7 +564,7 @@ const ThoughtCanvas = forwardRef<ThoughtCanvasRef, ThoughtCanvasProps>(
         baseSpeedRef.current = Math.max(0.5, Math.min(3, tokenVelocityRef.current / 10));
 
         // === PHASE DETECTION ===
-        const phaseInfo = detectPhase(text);
+        const phaseInfo = detectPhase(text, matches);
         const previousPhase = currentPhaseRef.current;
 
         // Phase transition detection
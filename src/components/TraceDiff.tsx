@@ -0,0 +1,50 @@
+'use client';
+
+import { AnyPatternId, PatternDefinition } from '@/utils/patternEngine';
+import { compareTraces } from '@/utils/traceCompare';
+import { ThoughtTrace } from '@/utils/trace';
+
+interface TraceDiffProps {
+  a: ThoughtTrace;
+  b: ThoughtTrace;
+  patterns?: PatternDefinition<AnyPatternId>[]; // custom patterns included
+}
+
+const formatValue = (value: number | null): string => {
+  if (value === null) return '—';
+  return Number.isInteger(value) ? value.toLocaleString('en-US') : value.toFixed(1);
+};
+
+const formatDelta = (delta: number | null): string => {
+  if (delta === null) return '—';
+  if (delta === 0) return '0';
+  return `${delta > 0 ? '+' : '−'}${formatValue(Math.abs(delta))}`;
+};
+
+// How run B differs from run A: run-level figures, then pattern counts
+export default function TraceDiff({ a, b, patterns }: TraceDiffProps) {
+  const rows = compareTraces(a, b, patterns);
+
+  return (
+    <table className="w-full text-xs tabular-nums" aria-label="Differences between the runs">
+      <thead>
+        <tr className="uppercase tracking-wide text-stone-600 border-b border-stone-300">
+          <th className="text-left font-normal py-1">Metric</th>
+          <th className="text-right font-normal py-1">A</th>
+          <th className="text-right font-normal py-1">B</th>
+          <th className="text-right font-normal py-1">B − A</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.label} className="border-b border-stone-100">
+            <td className="py-0.5">{row.label}</td>
+            <td className="text-right">{formatValue(row.a)}</td>
+            <td className="text-right">{formatValue(row.b)}</td>
+            <td className={`text-right ${row.delta ? 'font-bold' : 'text-stone-400'}`}>{formatDelta(row.delta)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,78 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { toAssistantContent } from './conversation';
+import { ReasoningProvider } from './reasoningProvider';
+
+// Claude with extended thinking: thinking, redacted thinking and text blocks map
+// one-to-one onto the stream's events, signatures included
+
+const serverKey = () => process.env.ANTHROPIC_API_KEY;
+
+export const anthropicProvider: ReasoningProvider = {
+  id: 'anthropic',
+
+  configError(apiKey) {
+    const key = apiKey ?? serverKey();
+    return !key || key === 'your_api_key_here'
+      ? 'ANTHROPIC_API_KEY not configured. Please add your API key to .env.local'
+      : null;
+  },
+
+  async stream({ model, max_tokens, temperature, budget_tokens, messages }, sink, signal, apiKey) {
+    const client = new Anthropic({ apiKey: apiKey ?? serverKey() });
+
+    // Create streaming request with extended thinking
+    const stream = await client.messages.stream({
+      model,
+      max_tokens,
+      temperature,
+      thinking: {
+        type: 'enabled',
+        budget_tokens
+      },
+      messages
+    }, { signal });
+
+    for await (const chunk of stream) {
+      // Input tokens arrive up front; output tokens are a running total
+      if (chunk.type === 'message_start') {
+        const { usage } = chunk.message;
+        sink.usage({
+          input_tokens: usage.input_tokens,
+          output_tokens: usage.output_tokens,
+          cache_creation_input_tokens: usage.cache_creation_input_tokens ?? 0,
+          cache_read_input_tokens: usage.cache_read_input_tokens ?? 0,
+        });
+      }
+
+      if (chunk.type === 'message_delta') {
+        sink.usage({ output_tokens: chunk.usage.output_tokens });
+      }
+
+      // Block boundaries, with a placeholder for each redacted thinking block
+      if (chunk.type === 'content_block_start') {
+        sink.blockStart(chunk.index, chunk.content_block.type);
+        if (chunk.content_block.type === 'redacted_thinking') {
+          sink.redacted(chunk.index);
+        }
+      }
+
+      if (chunk.type === 'content_block_stop') {
+        sink.blockStop(chunk.index);
+      }
+
+      if (chunk.type === 'content_block_delta') {
+        if (chunk.delta.type === 'thinking_delta') {
+          sink.thinking(chunk.delta.thinking);
+        } else if (chunk.delta.type === 'text_delta') {
+          sink.answer(chunk.delta.text);
+        } else if (chunk.delta.type === 'signature_delta') {
+          sink.signature(chunk.index, chunk.delta.signature);
+        }
+      }
+    }
+
+    // The assistant turn, thinking signatures included, for follow-ups
+    const finalMessage = await stream.finalMessage();
+    return toAssistantContent(finalMessage.content);
+  },
+};
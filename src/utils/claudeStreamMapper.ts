@@ -1,4 +1,5 @@
 import { ThoughtCanvasRef } from '../components/ThoughtCanvas';
+import { AnyPatternId, PatternMatch, StreamingPatternDetector } from './patternEngine';
 
 export interface ClaudeThinkingDelta {
   type: 'content_block_delta';
@@ -26,11 +27,68 @@ export interface ThinkingAnalysis {
   uncertainty: number;
 }
 
+const calculateComplexity = (text: string): number => {
+  const words = text.split(/\s+/).length;
+  const avgWordLength = text.replace(/\s/g, '').length / words;
+  const sentenceComplexity = (text.match(/[.!?]/g)?.length || 0) / words;
+  const technicalTerms = (text.match(/\b(?:algorithm|function|variable|data|structure|analysis|implementation|optimization)\b/gi)?.length || 0);
+
+  return Math.min(1, (avgWordLength * 0.1) + (sentenceComplexity * 2) + (technicalTerms * 0.2));
+};
+
+const calculateConceptDensity = (text: string): number => {
+  const concepts = text.match(/\b(?:concept|idea|principle|theory|approach|method|solution|problem|issue)\b/gi)?.length || 0;
+  const words = text.split(/\s+/).length;
+  return Math.min(1, concepts / Math.max(words * 0.1, 1));
+};
+
+const calculateEmotionalIntensity = (text: string): number => {
+  const emotionalWords = text.match(/\b(?:excited|worried|confident|uncertain|surprised|pleased|frustrated|intrigued)\b/gi)?.length || 0;
+  const emphasisMarkers = (text.match(/[!]{2,}|[?]{2,}|[.]{3,}/g)?.length || 0);
+  const words = text.split(/\s+/).length;
+
+  return Math.min(1, (emotionalWords + emphasisMarkers) / Math.max(words * 0.05, 1));
+};
+
+const calculateLogicalFlow = (text: string, matches: PatternMatch<AnyPatternId>[]): number => {
+  const logicalConnectors = matches.filter(m => m.patternId === 'causation' || m.patternId === 'enumeration').length;
+  const words = text.split(/\s+/).length;
+
+  return Math.min(1, logicalConnectors / Math.max(words * 0.05, 1));
+};
+
+const calculateUncertainty = (text: string, matches: PatternMatch<AnyPatternId>[]): number => {
+  const uncertaintyMarkers = matches.filter(m =>
+    m.patternId === 'uncertainty' || m.patternId === 'hedging' || m.patternId === 'question'
+  ).length;
+  const words = text.split(/\s+/).length;
+
+  return Math.min(1, uncertaintyMarkers / Math.max(words * 0.05, 1));
+};
+
+// Rough 0-1 readings of a stretch of thinking text and the patterns completed in it
+export const analyzeThinkingText = (text: string, matches: PatternMatch<AnyPatternId>[]): ThinkingAnalysis => {
+  const complexity = calculateComplexity(text);
+  const conceptDensity = calculateConceptDensity(text);
+  const emotionalIntensity = calculateEmotionalIntensity(text);
+  const logicalFlow = calculateLogicalFlow(text, matches);
+  const uncertainty = calculateUncertainty(text, matches);
+
+  return {
+    complexity,
+    conceptDensity,
+    emotionalIntensity,
+    logicalFlow,
+    uncertainty
+  };
+};
+
 export class ClaudeThoughtMapper {
   private canvasRef: ThoughtCanvasRef | null = null;
   private accumulatedThinking: string = '';
   private lastUpdateTime: number = 0;
   private tokenRate: number = 0;
+  private detector: StreamingPatternDetector = new StreamingPatternDetector();
 
   constructor(canvasRef?: ThoughtCanvasRef) {
     this.canvasRef = canvasRef || null;
@@ -53,9 +111,10 @@ export class ClaudeThoughtMapper {
     }
     this.lastUpdateTime = now;
 
-    const analysis = this.analyzeThinkingText(thinkingText);
+    const matches = this.detector.push(thinkingText);
+    const analysis = analyzeThinkingText(thinkingText, matches);
     
-    this.canvasRef.addDelta(thinkingText, this.calculateVisualizationIntensity(analysis));
+    this.canvasRef.addDelta(thinkingText, this.calculateVisualizationIntensity(analysis), matches);
 
     if (analysis.uncertainty > 0.7 || this.detectMajorConcept(thinkingText)) {
       this.canvasRef.startFlourish();
@@ -66,60 +125,9 @@ export class ClaudeThoughtMapper {
     this.canvasRef?.startFlourish();
   }
 
-  private analyzeThinkingText(text: string): ThinkingAnalysis {
-    const complexity = this.calculateComplexity(text);
-    const conceptDensity = this.calculateConceptDensity(text);
-    const emotionalIntensity = this.calculateEmotionalIntensity(text);
-    const logicalFlow = this.calculateLogicalFlow(text);
-    const uncertainty = this.calculateUncertainty(text);
-
-    return {
-      complexity,
-      conceptDensity,
-      emotionalIntensity,
-      logicalFlow,
-      uncertainty
-    };
-  }
-
-  private calculateComplexity(text: string): number {
-    const words = text.split(/\s+/).length;
-    const avgWordLength = text.replace(/\s/g, '').length / words;
-    const sentenceComplexity = (text.match(/[.!?]/g)?.length || 0) / words;
-    const technicalTerms = (text.match(/\b(?:algorithm|function|variable|data|structure|analysis|implementation|optimization)\b/gi)?.length || 0);
-    
-    return Math.min(1, (avgWordLength * 0.1) + (sentenceComplexity * 2) + (technicalTerms * 0.2));
-  }
-
-  private calculateConceptDensity(text: string): number {
-    const concepts = text.match(/\b(?:concept|idea|principle|theory|approach|method|solution|problem|issue)\b/gi)?.length || 0;
-    const words = text.split(/\s+/).length;
-    return Math.min(1, concepts / Math.max(words * 0.1, 1));
-  }
-
-  private calculateEmotionalIntensity(text: string): number {
-    const emotionalWords = text.match(/\b(?:excited|worried|confident|uncertain|surprised|pleased|frustrated|intrigued)\b/gi)?.length || 0;
-    const emphasisMarkers = (text.match(/[!]{2,}|[?]{2,}|[.]{3,}/g)?.length || 0);
-    const words = text.split(/\s+/).length;
-    
-    return Math.min(1, (emotionalWords + emphasisMarkers) / Math.max(words * 0.05, 1));
-  }
-
-  private calculateLogicalFlow(text: string): number {
-    const logicalConnectors = text.match(/\b(?:therefore|however|because|since|thus|consequently|nevertheless|furthermore|moreover)\b/gi)?.length || 0;
-    const listMarkers = (text.match(/^\s*[1-9]\.|^\s*[-*+]\s/gm)?.length || 0);
-    const words = text.split(/\s+/).length;
-    
-    return Math.min(1, (logicalConnectors + listMarkers) / Math.max(words * 0.05, 1));
-  }
-
-  private calculateUncertainty(text: string): number {
-    const uncertaintyMarkers = text.match(/\b(?:maybe|perhaps|possibly|might|could|uncertain|unclear|ambiguous|confused)\b/gi)?.length || 0;
-    const questionMarks = (text.match(/\?/g)?.length || 0);
-    const hedging = text.match(/\b(?:seems|appears|tends to|sort of|kind of)\b/gi)?.length || 0;
-    const words = text.split(/\s+/).length;
-    
-    return Math.min(1, (uncertaintyMarkers + questionMarks + hedging) / Math.max(words * 0.05, 1));
+  // Redacted thinking has no text to analyze; show that a thought happened anyway
+  processRedactedThinking(): void {
+    this.canvasRef?.startFlourish();
   }
 
   private detectMajorConcept(text: string): boolean {
@@ -154,6 +162,7 @@ export class ClaudeThoughtMapper {
     this.accumulatedThinking = '';
     this.lastUpdateTime = 0;
     this.tokenRate = 0;
+    this.detector.reset();
     this.canvasRef?.reset();
   }
 
@@ -166,8 +175,17 @@ export const createClaudeStreamProcessor = (canvasRef: ThoughtCanvasRef) => {
   const mapper = new ClaudeThoughtMapper(canvasRef);
 
   return {
-    processStreamEvent: (event: Record<string, unknown> & { type?: string; delta?: Record<string, unknown> & { type?: string } }) => {
+    processStreamEvent: (event: Record<string, unknown> & {
+      type?: string;
+      delta?: Record<string, unknown> & { type?: string };
+      content_block?: Record<string, unknown> & { type?: string };
+    }) => {
       switch (event.type) {
+        case 'content_block_start':
+          if (event.content_block?.type === 'redacted_thinking') {
+            mapper.processRedactedThinking();
+          }
+          break;
         case 'content_block_delta':
           if (event.delta?.type === 'thinking_delta') {
             mapper.processThinkingDelta(event as unknown as ClaudeThinkingDelta);
@@ -0,0 +1,44 @@
+// Conversation history sent to /api/stream for follow-up questions. With extended
+// thinking enabled, earlier assistant turns must be sent back with their thinking
+// blocks unmodified, signatures included.
+
+export type AssistantContentBlock =
+  | { type: 'thinking'; thinking: string; signature: string }
+  | { type: 'redacted_thinking'; data: string }
+  | { type: 'text'; text: string };
+
+export type ConversationMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: AssistantContentBlock[] };
+
+// One completed exchange: the user's prompt and the assistant blocks that answered it
+export interface ConversationTurn {
+  prompt: string;
+  content: AssistantContentBlock[];
+}
+
+// Keep only the blocks that can be sent back to the API
+export const toAssistantContent = (blocks: unknown[]): AssistantContentBlock[] =>
+  blocks.flatMap((block): AssistantContentBlock[] => {
+    if (typeof block !== 'object' || block === null) return [];
+    const b = block as Record<string, unknown>;
+    if (b.type === 'thinking' && typeof b.thinking === 'string' && typeof b.signature === 'string') {
+      return [{ type: 'thinking', thinking: b.thinking, signature: b.signature }];
+    }
+    if (b.type === 'redacted_thinking' && typeof b.data === 'string') {
+      return [{ type: 'redacted_thinking', data: b.data }];
+    }
+    if (b.type === 'text' && typeof b.text === 'string') {
+      return [{ type: 'text', text: b.text }];
+    }
+    return [];
+  });
+
+// Message history for a new prompt following the given turns
+export const buildMessages = (turns: ConversationTurn[], prompt: string): ConversationMessage[] => [
+  ...turns.flatMap((turn): ConversationMessage[] => [
+    { role: 'user', content: turn.prompt },
+    { role: 'assistant', content: turn.content },
+  ]),
+  { role: 'user', content: prompt },
+];
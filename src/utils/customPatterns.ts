@@ -0,0 +1,246 @@
+import { AXES, AnyPatternId, CognitiveAxis, CustomPatternId, PATTERNS, PatternDefinition, markers } from './patternEngine';
+
+// Patterns users add without touching the source (client side). Each has a name,
+// keywords or a regex, a highlight colour and the axis it plays on. The set is
+// kept in localStorage and moves between browsers as a JSON file.
+
+export const CUSTOM_PATTERNS_STORAGE = 'process-thought:custom-patterns';
+export const CUSTOM_PATTERNS_FORMAT = 'process-thought-patterns';
+const CUSTOM_PATTERNS_VERSION = 1;
+
+const MAX_NAME_CHARS = 32;
+const MAX_MATCH_CHARS = 48; // the streaming detector only looks back 64 characters
+
+// Tailwind highlight classes, spelled out so the build keeps them
+export const HIGHLIGHT_COLORS = {
+  lime: 'bg-lime-200 text-lime-900',
+  teal: 'bg-teal-200 text-teal-900',
+  sky: 'bg-sky-200 text-sky-900',
+  violet: 'bg-violet-200 text-violet-900',
+  fuchsia: 'bg-fuchsia-200 text-fuchsia-900',
+  rose: 'bg-rose-200 text-rose-900',
+  amber: 'bg-amber-200 text-amber-900',
+  slate: 'bg-slate-300 text-slate-900',
+};
+
+export type HighlightColor = keyof typeof HIGHLIGHT_COLORS;
+
+export const HIGHLIGHT_COLOR_NAMES = Object.keys(HIGHLIGHT_COLORS) as HighlightColor[];
+
+export type CustomPatternKind = 'keywords' | 'regex';
+
+export interface CustomPattern {
+  name: string;
+  kind: CustomPatternKind;
+  source: string; // keywords one per line (or comma-separated), or a regex without slashes or flags
+  color: HighlightColor;
+  axis: CognitiveAxis;
+}
+
+export interface CustomPatternProblem {
+  field: keyof CustomPattern;
+  message: string;
+}
+
+export class CustomPatternsParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CustomPatternsParseError';
+  }
+}
+
+export const customPatternId = (name: string): CustomPatternId =>
+  `custom:${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+
+export const splitKeywords = (source: string): string[] =>
+  source.split(/[\n,]/).map((keyword) => keyword.trim()).filter(Boolean);
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The longest text a (valid) regex source can match: Infinity for unbounded repeats
+// and backreferences, whose length the detector's look-back can't cover
+const maxMatchLength = (source: string): number => {
+  let i = 0;
+
+  const alternation = (): number => {
+    let longest = sequence();
+    while (source[i] === '|') {
+      i++;
+      longest = Math.max(longest, sequence());
+    }
+    return longest;
+  };
+
+  const sequence = (): number => {
+    let total = 0;
+    while (i < source.length && source[i] !== '|' && source[i] !== ')') {
+      total += quantified(atom());
+    }
+    return total;
+  };
+
+  const atom = (): number => {
+    const char = source[i++];
+    if (char === '^' || char === '$') return 0;
+    if (char === '\\') {
+      const escaped = source[i++];
+      if (escaped === 'b' || escaped === 'B') return 0;
+      if (/[1-9]/.test(escaped) || (escaped === 'k' && source[i] === '<')) return Infinity;
+      if (escaped === 'u') i += 4;
+      if (escaped === 'x') i += 2;
+      if (escaped === 'c') i += 1;
+      return 1;
+    }
+    if (char === '[') {
+      while (i < source.length && source[i] !== ']') i += source[i] === '\\' ? 2 : 1;
+      i++;
+      return 1;
+    }
+    if (char === '(') {
+      const lookaround = /^\?(=|!|<=|<!)/.exec(source.slice(i));
+      const named = /^\?(:|<[^>]+>)/.exec(source.slice(i));
+      i += (lookaround ?? named)?.[0].length ?? 0;
+      const inner = alternation();
+      i++; // the closing parenthesis
+      return lookaround ? 0 : inner;
+    }
+    return 1;
+  };
+
+  const quantified = (length: number): number => {
+    const brace = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(i));
+    let repeats = 1;
+    if (source[i] === '*' || source[i] === '+') {
+      i++;
+      repeats = Infinity;
+    } else if (source[i] === '?') {
+      i++;
+    } else if (brace) {
+      i += brace[0].length;
+      repeats = brace[2] === undefined ? Number(brace[1]) : brace[3] ? Number(brace[3]) : Infinity;
+    } else {
+      return length;
+    }
+    if (source[i] === '?') i++; // lazy
+    return length === 0 ? 0 : length * repeats;
+  };
+
+  return alternation();
+};
+
+const patternRegex = ({ kind, source }: CustomPattern): RegExp =>
+  kind === 'keywords' ? markers(splitKeywords(source).map(escapeRegex)) : new RegExp(source, 'gi');
+
+// What's wrong with a pattern, checked against the others in the set, or null
+export const customPatternError = (pattern: CustomPattern, others: CustomPattern[] = []): CustomPatternProblem | null => {
+  const name = pattern.name.trim();
+  if (!/^[a-z][a-z0-9 -]*$/i.test(name) || name.length > MAX_NAME_CHARS) {
+    return { field: 'name', message: `Name must start with a letter and use letters, digits, spaces or hyphens (at most ${MAX_NAME_CHARS})` };
+  }
+  const id = customPatternId(name);
+  if (PATTERNS.some((builtIn) => builtIn.id === name.toLowerCase()) || others.some((other) => customPatternId(other.name) === id)) {
+    return { field: 'name', message: `There is already a pattern called ${name}` };
+  }
+  if (!AXES.includes(pattern.axis)) {
+    return { field: 'axis', message: `Axis must be one of ${AXES.join(', ')}` };
+  }
+  if (!HIGHLIGHT_COLOR_NAMES.includes(pattern.color)) {
+    return { field: 'color', message: `Colour must be one of ${HIGHLIGHT_COLOR_NAMES.join(', ')}` };
+  }
+
+  if (pattern.kind === 'keywords') {
+    const keywords = splitKeywords(pattern.source);
+    if (keywords.length === 0) {
+      return { field: 'source', message: 'Add at least one keyword' };
+    }
+    const long = keywords.find((keyword) => keyword.length > MAX_MATCH_CHARS);
+    if (long) {
+      return { field: 'source', message: `Keywords can be at most ${MAX_MATCH_CHARS} characters: ${long}` };
+    }
+    return null;
+  }
+
+  if (pattern.kind !== 'regex') {
+    return { field: 'kind', message: 'Kind must be keywords or regex' };
+  }
+  if (!pattern.source) {
+    return { field: 'source', message: 'Enter a regular expression' };
+  }
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern.source, 'i');
+  } catch (error) {
+    return { field: 'source', message: error instanceof Error ? error.message : 'Invalid regular expression' };
+  }
+  if (regex.test('')) {
+    return { field: 'source', message: 'The expression must not match empty text' };
+  }
+  if (maxMatchLength(pattern.source) > MAX_MATCH_CHARS) {
+    return {
+      field: 'source',
+      message: `The expression must match at most ${MAX_MATCH_CHARS} characters: bound its repeats (\\w{1,20}, not \\w+) and leave out backreferences`,
+    };
+  }
+  return null;
+};
+
+// The engine's form of a valid pattern
+export const compileCustomPattern = (pattern: CustomPattern): PatternDefinition<CustomPatternId> => ({
+  id: customPatternId(pattern.name),
+  axis: pattern.axis,
+  regex: patternRegex(pattern),
+  className: HIGHLIGHT_COLORS[pattern.color],
+});
+
+// Built-in patterns followed by the custom ones, for the detector and highlighter
+export const withCustomPatterns = (custom: CustomPattern[]): PatternDefinition<AnyPatternId>[] => [
+  ...PATTERNS,
+  ...custom.map(compileCustomPattern),
+];
+
+// Keep the valid patterns of a parsed list, in order, dropping repeats
+const validPatterns = (raw: unknown[]): CustomPattern[] =>
+  raw.reduce<CustomPattern[]>((kept, item) => {
+    if (typeof item !== 'object' || item === null) return kept;
+    const { name, kind, source, color, axis } = item as Record<string, unknown>;
+    if (typeof name !== 'string' || typeof source !== 'string') return kept;
+    const pattern = { name: name.trim(), kind, source, color, axis } as CustomPattern;
+    return customPatternError(pattern, kept) ? kept : [...kept, pattern];
+  }, []);
+
+export const loadCustomPatterns = (): CustomPattern[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(CUSTOM_PATTERNS_STORAGE) ?? '[]');
+    return Array.isArray(raw) ? validPatterns(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomPatterns = (patterns: CustomPattern[]): void => {
+  localStorage.setItem(CUSTOM_PATTERNS_STORAGE, JSON.stringify(patterns));
+};
+
+export const serializeCustomPatterns = (patterns: CustomPattern[]): string =>
+  JSON.stringify({ format: CUSTOM_PATTERNS_FORMAT, version: CUSTOM_PATTERNS_VERSION, patterns }, null, 2);
+
+// Read an exported pattern file; invalid patterns in it are skipped
+export const parseCustomPatterns = (json: string): CustomPattern[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new CustomPatternsParseError('File is not valid JSON');
+  }
+  if (typeof raw !== 'object' || raw === null || (raw as Record<string, unknown>).format !== CUSTOM_PATTERNS_FORMAT) {
+    throw new CustomPatternsParseError('Not a Process Thought pattern file');
+  }
+  const { version, patterns } = raw as Record<string, unknown>;
+  if (typeof version !== 'number' || version > CUSTOM_PATTERNS_VERSION) {
+    throw new CustomPatternsParseError(`Unsupported pattern file version: ${String(version)}`);
+  }
+  if (!Array.isArray(patterns)) {
+    throw new CustomPatternsParseError('Pattern file has no patterns list');
+  }
+  return validPatterns(patterns);
+};
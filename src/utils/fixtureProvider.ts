@@ -0,0 +1,186 @@
+import { readFile, readdir } from 'fs/promises';
+import path from 'path';
+import { ConversationMessage } from './conversation';
+import { ReasoningProvider } from './reasoningProvider';
+import { FixtureRequest, RequestValidationError } from './streamRequest';
+import { ThoughtTrace, parseTrace } from './trace';
+
+// Offline provider for development without an API key (server only): plays a recorded
+// trace file back through the same events a live run sends, at its recorded pace.
+// Any downloaded trace can be dropped into the fixture directory and played by name.
+
+export const FIXTURE_DIR = process.env.FIXTURE_DIR ?? path.join(process.cwd(), 'src', 'fixtures');
+const FIXTURE_SUFFIX = '.trace.json';
+
+// Stands in for the signature of fixture thinking blocks, which no real API accepts
+export const FIXTURE_SIGNATURE = 'fixture';
+const ANSWER_WORDS_PER_CHUNK = 3;
+const ANSWER_CHUNK_MS = 40; // pace for answers when the trace has no end time
+
+export interface FixtureOptions {
+  speed: number;
+  jitter: number;
+  error_at: number | null;
+  stall_at: number | null;
+  stall_ms: number;
+}
+
+// STREAM_PROVIDER=fixture plays fixtures for every request, key or not
+export const fixtureMode = (): boolean => process.env.STREAM_PROVIDER === 'fixture';
+
+const envNumber = (name: string): number | undefined => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : undefined;
+};
+
+// Request options win over the FIXTURE_* environment variables
+export const fixtureOptions = (request: FixtureRequest = {}): FixtureOptions => ({
+  speed: request.speed ?? envNumber('FIXTURE_SPEED') ?? 1,
+  jitter: request.jitter ?? envNumber('FIXTURE_JITTER') ?? 0.2,
+  error_at: request.error_at ?? envNumber('FIXTURE_ERROR_AT') ?? null,
+  stall_at: request.stall_at ?? envNumber('FIXTURE_STALL_AT') ?? null,
+  stall_ms: request.stall_ms ?? envNumber('FIXTURE_STALL_MS') ?? 5000,
+});
+
+export const listFixtures = async (): Promise<string[]> => {
+  const files = await readdir(FIXTURE_DIR).catch(() => []);
+  return files
+    .filter((file) => file.endsWith(FIXTURE_SUFFIX))
+    .map((file) => file.slice(0, -FIXTURE_SUFFIX.length))
+    .sort();
+};
+
+const readFixture = async (name: string): Promise<ThoughtTrace> =>
+  parseTrace(await readFile(path.join(FIXTURE_DIR, `${name}${FIXTURE_SUFFIX}`), 'utf8'));
+
+const hashText = (text: string): number =>
+  [...text].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+
+// The named fixture, else the one recorded for this prompt, else one chosen by the
+// prompt's hash so the same prompt always plays the same trace
+export const loadFixture = async (prompt: string, name?: string): Promise<ThoughtTrace> => {
+  const names = await listFixtures();
+  if (name !== undefined) {
+    if (!names.includes(name)) {
+      throw new RequestValidationError('invalid_field', `Unknown fixture: ${name}`, 'fixture.name');
+    }
+    return readFixture(name);
+  }
+  if (names.length === 0) {
+    throw new Error(`No fixtures found in ${FIXTURE_DIR}`);
+  }
+
+  const traces = await Promise.all(names.map(readFixture));
+  return traces.find((trace) => trace.prompt.trim() === prompt.trim()) ?? traces[hashText(prompt) % traces.length];
+};
+
+// Resolves early if the run is aborted
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, Math.max(0, ms));
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+const answerChunks = (answer: string): string[] => {
+  const words = answer.match(/\S+\s*|\s+/g) ?? [];
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += ANSWER_WORDS_PER_CHUNK) {
+    chunks.push(words.slice(i, i + ANSWER_WORDS_PER_CHUNK).join(''));
+  }
+  return chunks;
+};
+
+// Plays one fixture as a live run would. The route's `start` echoes the request's
+// settings; the provider is recorded as `fixture`.
+export const fixtureProvider = (trace: ThoughtTrace, options: FixtureOptions): ReasoningProvider => ({
+  id: 'fixture',
+
+  configError: () => null,
+
+  async stream(_request, sink, signal) {
+    const pace = (ms: number) => (ms / options.speed) * (1 + options.jitter * (Math.random() * 2 - 1));
+
+    let index = 0;
+    sink.blockStart(index, 'thinking');
+
+    const totalLength = trace.deltas.reduce((length, d) => length + d.text_chunk.length, 0);
+    const redacted = [...trace.redacted];
+    let offset = 0;
+    let recordedTime = 0;
+    let stalled = false;
+    let thinking = '';
+
+    for (const delta of trace.deltas) {
+      await sleep(pace(delta.t_rel_ms - recordedTime), signal);
+      if (signal.aborted) return [];
+      recordedTime = delta.t_rel_ms;
+
+      // A redacted block interrupts the thinking where it was recorded
+      while (redacted.length > 0 && redacted[0].offset <= offset) {
+        redacted.shift();
+        sink.blockStop(index);
+        index++;
+        sink.blockStart(index, 'redacted_thinking');
+        sink.redacted(index);
+        sink.blockStop(index);
+        index++;
+        sink.blockStart(index, 'thinking');
+      }
+
+      sink.thinking(delta.text_chunk);
+      thinking += delta.text_chunk;
+      offset += delta.text_chunk.length;
+      const progress = totalLength > 0 ? offset / totalLength : 1;
+
+      if (options.error_at !== null && progress >= options.error_at) {
+        throw new Error('Injected fixture error');
+      }
+      if (options.stall_at !== null && !stalled && progress >= options.stall_at) {
+        stalled = true;
+        await sleep(options.stall_ms, signal);
+        if (signal.aborted) return [];
+      }
+    }
+    sink.blockStop(index);
+
+    // A recorded failure replays as one
+    if (trace.error !== null) {
+      throw new Error(trace.error);
+    }
+
+    const answer = trace.answer ?? '';
+    const chunks = answerChunks(answer);
+    const answerMs = trace.end ? Math.max(0, trace.end.ms - recordedTime) : chunks.length * ANSWER_CHUNK_MS;
+    index++;
+    sink.blockStart(index, 'text');
+    for (const chunk of chunks) {
+      await sleep(pace(answerMs / chunks.length), signal);
+      if (signal.aborted) return [];
+      sink.answer(chunk);
+    }
+    sink.blockStop(index);
+    if (trace.end?.usage) {
+      // An estimated thinking count is estimated again from this run's text
+      const { thinking_estimated, thinking_tokens, ...counts } = trace.end.usage;
+      sink.usage(thinking_estimated ? counts : { ...counts, thinking_tokens });
+    }
+
+    // Fixture thinking has no real signature, so follow-ups only work in fixture mode
+    return [
+      { type: 'thinking', thinking, signature: FIXTURE_SIGNATURE },
+      ...(answer ? [{ type: 'text' as const, text: answer }] : []),
+    ];
+  },
+});
+
+// Whether earlier turns of a conversation were played from fixtures
+export const hasFixtureTurns = (messages: ConversationMessage[]): boolean =>
+  messages.some((message) => message.role === 'assistant'
+    && message.content.some((block) => block.type === 'thinking' && block.signature === FIXTURE_SIGNATURE));
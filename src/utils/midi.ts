@@ -0,0 +1,116 @@
+import { LAYERS, LayerName, NoteEvent, TraceScore, frequencyToMidi } from './thoughtScore';
+
+// Standard MIDI File (format 1) export of a scored run: a conductor track plus one
+// track per layer, with marker meta-events naming the pattern behind each note.
+
+const TICKS_PER_QUARTER = 480;
+const BPM = 120; // matches the tempo the score's note lengths assume
+const TICKS_PER_SECOND = (TICKS_PER_QUARTER * BPM) / 60;
+
+// Channel and General MIDI program (zero-based) per layer
+const LAYER_INSTRUMENTS: Record<LayerName, { channel: number; program: number; name: string }> = {
+  bass: { channel: 0, program: 38, name: 'BASS' }, // Synth Bass 1
+  mid: { channel: 1, program: 80, name: 'MID' }, // Lead 1 (square)
+  high: { channel: 2, program: 98, name: 'HIGH' }, // FX 3 (crystal)
+  pad: { channel: 3, program: 88, name: 'PAD' }, // Pad 1 (new age)
+  texture: { channel: 4, program: 122, name: 'TEXTURE' }, // Seashore; pitch follows the filter cutoff
+};
+
+interface TrackEvent {
+  tick: number;
+  order: number; // tie-break at equal ticks: meta, then note-offs, then note-ons
+  bytes: number[];
+}
+
+const variableLength = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  let rest = value >> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>= 7;
+  }
+  return bytes;
+};
+
+const textBytes = (text: string): number[] => Array.from(new TextEncoder().encode(text));
+
+const metaEvent = (type: number, data: number[]): number[] => [0xff, type, ...variableLength(data.length), ...data];
+
+const toTicks = (seconds: number): number => Math.max(0, Math.round(seconds * TICKS_PER_SECOND));
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+export const noteVelocity = (gain: number): number => clamp(Math.round(gain * 127), 1, 127);
+
+export const notePitch = (frequency: number): number => clamp(Math.round(frequencyToMidi(frequency)), 0, 127);
+
+const encodeTrack = (events: TrackEvent[]): number[] => {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const data: number[] = [];
+  let lastTick = 0;
+
+  sorted.forEach((event) => {
+    data.push(...variableLength(event.tick - lastTick), ...event.bytes);
+    lastTick = event.tick;
+  });
+  data.push(0x00, ...metaEvent(0x2f, [])); // End of track
+
+  const length = data.length;
+  return [
+    ...textBytes('MTrk'),
+    (length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff,
+    ...data,
+  ];
+};
+
+const layerTrack = (layer: LayerName, notes: NoteEvent[]): TrackEvent[] => {
+  const { channel, program, name } = LAYER_INSTRUMENTS[layer];
+  const events: TrackEvent[] = [
+    { tick: 0, order: 0, bytes: metaEvent(0x03, textBytes(name)) }, // Track name
+    { tick: 0, order: 0, bytes: [0xc0 | channel, program] },
+  ];
+  const markers = new Set<string>();
+
+  notes.forEach((note) => {
+    const start = toTicks(note.time);
+    const end = Math.max(start + 1, toTicks(note.time + note.duration));
+    const pitch = notePitch(note.frequency);
+
+    // One marker per cause per tick, so chords don't repeat their label
+    const label = note.cause ?? 'plain';
+    const markerKey = `${start}:${label}`;
+    if (!markers.has(markerKey)) {
+      markers.add(markerKey);
+      events.push({ tick: start, order: 0, bytes: metaEvent(0x06, textBytes(label)) });
+    }
+
+    events.push({ tick: start, order: 2, bytes: [0x90 | channel, pitch, noteVelocity(note.gain)] });
+    events.push({ tick: end, order: 1, bytes: [0x80 | channel, pitch, 0] });
+  });
+
+  return events;
+};
+
+export const encodeMidi = (score: TraceScore, title: string): Uint8Array<ArrayBuffer> => {
+  const microsPerQuarter = Math.round(60_000_000 / BPM);
+  const conductor: TrackEvent[] = [
+    { tick: 0, order: 0, bytes: metaEvent(0x03, textBytes(title)) },
+    { tick: 0, order: 0, bytes: metaEvent(0x51, [(microsPerQuarter >> 16) & 0xff, (microsPerQuarter >> 8) & 0xff, microsPerQuarter & 0xff]) },
+    { tick: 0, order: 0, bytes: metaEvent(0x58, [4, 2, 24, 8]) }, // 4/4
+  ];
+
+  const tracks = [
+    encodeTrack(conductor),
+    ...LAYERS.map((layer) => encodeTrack(layerTrack(layer, score.notes.filter((note) => note.layer === layer)))),
+  ];
+
+  const header = [
+    ...textBytes('MThd'),
+    0, 0, 0, 6,
+    0, 1, // format 1
+    0, tracks.length,
+    (TICKS_PER_QUARTER >> 8) & 0xff, TICKS_PER_QUARTER & 0xff,
+  ];
+
+  return new Uint8Array([...header, ...tracks.flat()]);
+};
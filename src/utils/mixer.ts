@@ -0,0 +1,59 @@
+import { AXES, CognitiveAxis } from './patternEngine';
+
+// Per-axis mixer state (client side): volume, mute and solo for each cognitive
+// axis, kept in localStorage between sessions
+
+export const MIXER_STORAGE = 'process-thought:mixer';
+
+export interface AxisMix {
+  muted: boolean;
+  solo: boolean;
+  volume: number; // 0-100
+}
+
+export type MixerControls = Record<CognitiveAxis, AxisMix>;
+
+export const DEFAULT_MIXER: MixerControls = {
+  certainty: { muted: false, solo: false, volume: 100 },
+  reasoning: { muted: false, solo: false, volume: 100 },
+  revision: { muted: false, solo: false, volume: 100 },
+  resolution: { muted: false, solo: false, volume: 100 },
+};
+
+export const toggleMute = (controls: MixerControls, axis: CognitiveAxis): MixerControls => ({
+  ...controls,
+  [axis]: { ...controls[axis], muted: !controls[axis].muted },
+});
+
+export const toggleSolo = (controls: MixerControls, axis: CognitiveAxis): MixerControls => ({
+  ...controls,
+  [axis]: { ...controls[axis], solo: !controls[axis].solo },
+});
+
+export const clearSolos = (controls: MixerControls): MixerControls =>
+  AXES.reduce((next, axis) => ({ ...next, [axis]: { ...controls[axis], solo: false } }), controls);
+
+export const setVolume = (controls: MixerControls, axis: CognitiveAxis, volume: number): MixerControls => ({
+  ...controls,
+  [axis]: { ...controls[axis], volume: Math.min(100, Math.max(0, Math.round(volume))) },
+});
+
+// Anything unreadable in storage falls back to the default for that axis
+export const loadMixer = (): MixerControls => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(MIXER_STORAGE) ?? '{}');
+    return AXES.reduce((controls, axis) => {
+      const { muted, solo, volume } = raw?.[axis] ?? {};
+      if (typeof muted !== 'boolean' || typeof solo !== 'boolean' || typeof volume !== 'number' || !Number.isFinite(volume)) {
+        return controls;
+      }
+      return setVolume({ ...controls, [axis]: { muted, solo, volume } }, axis, volume);
+    }, DEFAULT_MIXER);
+  } catch {
+    return DEFAULT_MIXER;
+  }
+};
+
+export const saveMixer = (controls: MixerControls): void => {
+  localStorage.setItem(MIXER_STORAGE, JSON.stringify(controls));
+};
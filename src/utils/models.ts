@@ -0,0 +1,103 @@
+// Models the app may call, and the generation settings the route accepts. Shared by
+// /api/stream (which enforces them), /api/models (which publishes them) and the page.
+
+// Where the thinking comes from: each model belongs to one reasoning backend, and
+// `fixture` replays recorded traces instead of calling any of them
+export type ProviderId = 'anthropic' | 'openai' | 'openai-compatible' | 'fixture';
+
+export const PROVIDER_IDS: ProviderId[] = ['anthropic', 'openai', 'openai-compatible', 'fixture'];
+
+export interface ModelOption {
+  id: string;
+  label: string;
+  provider: ProviderId;
+  maxOutputTokens: number; // upper bound for max_tokens
+}
+
+export const MODELS: ModelOption[] = [
+  { id: 'claude-sonnet-4-5', label: 'Claude Sonnet 4.5', provider: 'anthropic', maxOutputTokens: 64000 },
+  { id: 'claude-haiku-4-5', label: 'Claude Haiku 4.5', provider: 'anthropic', maxOutputTokens: 64000 },
+  { id: 'claude-opus-4-1', label: 'Claude Opus 4.1', provider: 'anthropic', maxOutputTokens: 32000 },
+  { id: 'claude-3-7-sonnet-20250219', label: 'Claude 3.7 Sonnet', provider: 'anthropic', maxOutputTokens: 64000 },
+  { id: 'gpt-5', label: 'GPT-5', provider: 'openai', maxOutputTokens: 128000 },
+  { id: 'gpt-5-mini', label: 'GPT-5 mini', provider: 'openai', maxOutputTokens: 128000 },
+  { id: 'o4-mini', label: 'o4-mini', provider: 'openai', maxOutputTokens: 100000 },
+];
+
+const LOCAL_MAX_OUTPUT_TOKENS = 32768;
+
+export const DEFAULT_MODEL = 'claude-sonnet-4-5';
+export const DEFAULT_MAX_TOKENS = 15000;
+export const DEFAULT_BUDGET_TOKENS = 10000;
+export const MIN_BUDGET_TOKENS = 1024; // smallest thinking budget the API accepts
+
+export interface GenerationSettings {
+  model: string;
+  max_tokens: number;
+  budget_tokens: number;
+}
+
+export const DEFAULT_SETTINGS: GenerationSettings = {
+  model: DEFAULT_MODEL,
+  max_tokens: DEFAULT_MAX_TOKENS,
+  budget_tokens: DEFAULT_BUDGET_TOKENS,
+};
+
+export const getModel = (id: string, models: ModelOption[] = MODELS): ModelOption | undefined =>
+  models.find((m) => m.id === id);
+
+// Claude's extended thinking only runs at temperature 1 and OpenAI's reasoning models
+// take none, so only local models have a temperature to set
+export const acceptsTemperature = (model: ModelOption | undefined): boolean =>
+  model?.provider === 'openai-compatible';
+
+const envList = (name: string): string[] =>
+  process.env[name]?.split(',').map((id) => id.trim()).filter(Boolean) ?? [];
+
+// Models served by a local OpenAI-compatible server, listed in OPENAI_COMPATIBLE_MODELS
+export const localModels = (): ModelOption[] =>
+  envList('OPENAI_COMPATIBLE_MODELS').map((id) => ({
+    id,
+    label: `${id} (local)`,
+    provider: 'openai-compatible',
+    maxOutputTokens: LOCAL_MAX_OUTPUT_TOKENS,
+  }));
+
+// Models this deployment allows: ALLOWED_MODELS (comma-separated ids) narrows the
+// built-in and local lists on the server; unset, every listed model is allowed
+export const allowedModels = (): ModelOption[] => {
+  const models = [...MODELS, ...localModels()];
+  const ids = envList('ALLOWED_MODELS');
+  return ids.length > 0 ? models.filter((m) => ids.includes(m.id)) : models;
+};
+
+// The default model if it's allowed, otherwise the first one that is
+export const defaultModel = (models: ModelOption[]): string =>
+  getModel(DEFAULT_MODEL, models) ? DEFAULT_MODEL : models[0]?.id ?? DEFAULT_MODEL;
+
+export interface SettingsProblem {
+  field: keyof GenerationSettings;
+  message: string;
+}
+
+// Why the combination can't be used, or null if it's valid. The thinking budget
+// counts towards max_tokens, so it must leave room for the answer.
+export const settingsError = (
+  { model, max_tokens, budget_tokens }: GenerationSettings,
+  models: ModelOption[] = MODELS
+): SettingsProblem | null => {
+  const option = getModel(model, models);
+  if (!option) {
+    return { field: 'model', message: `Unsupported model: ${model}` };
+  }
+  if (!Number.isInteger(budget_tokens) || budget_tokens < MIN_BUDGET_TOKENS) {
+    return { field: 'budget_tokens', message: `Thinking budget must be a whole number of at least ${MIN_BUDGET_TOKENS} tokens` };
+  }
+  if (!Number.isInteger(max_tokens) || max_tokens > option.maxOutputTokens) {
+    return { field: 'max_tokens', message: `Max tokens must be a whole number no greater than ${option.maxOutputTokens} for ${option.label}` };
+  }
+  if (budget_tokens >= max_tokens) {
+    return { field: 'budget_tokens', message: 'Thinking budget must be below max tokens' };
+  }
+  return null;
+};
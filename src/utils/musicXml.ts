@@ -0,0 +1,275 @@
+import { AnyPatternId, PatternDefinition, ThoughtPhase, detectPhase, firedPatterns } from './patternEngine';
+import { LayerName, NoteEvent, RoutingMatrix, frequencyToMidi, scoreTrace, traceTimeline } from './thoughtScore';
+import { ThoughtTrace } from './trace';
+
+// MusicXML (partwise 4.0) export of a scored run: notes quantized to a sixteenth-note
+// grid at 120 BPM in 4/4, one staff per layer, with the patterns that fired written
+// above the top staff and a rehearsal mark wherever the thought changes phase.
+
+const BPM = 120;
+const DIVISIONS = 4; // per quarter note: one division is a sixteenth
+const SLOTS_PER_SECOND = (DIVISIONS * BPM) / 60;
+const MEASURE_SLOTS = DIVISIONS * 4;
+
+// Staves from top to bottom, as a printed score would order them
+const STAVES: { layer: LayerName; name: string; clef: 'treble' | 'bass' | 'percussion' }[] = [
+  { layer: 'high', name: 'High', clef: 'treble' },
+  { layer: 'mid', name: 'Mid', clef: 'treble' },
+  { layer: 'pad', name: 'Pad', clef: 'treble' },
+  { layer: 'bass', name: 'Bass', clef: 'bass' },
+  { layer: 'texture', name: 'Texture', clef: 'percussion' }, // unpitched noise bursts
+];
+
+const CLEFS = {
+  treble: '<clef><sign>G</sign><line>2</line></clef>',
+  bass: '<clef><sign>F</sign><line>4</line></clef>',
+  percussion: '<clef><sign>percussion</sign></clef>',
+};
+
+// Lengths in sixteenths that print as a single note value, longest first
+const NOTE_TYPES: { slots: number; type: string; dotted: boolean }[] = [
+  { slots: 16, type: 'whole', dotted: false },
+  { slots: 12, type: 'half', dotted: true },
+  { slots: 8, type: 'half', dotted: false },
+  { slots: 6, type: 'quarter', dotted: true },
+  { slots: 4, type: 'quarter', dotted: false },
+  { slots: 3, type: 'eighth', dotted: true },
+  { slots: 2, type: 'eighth', dotted: false },
+  { slots: 1, type: '16th', dotted: false },
+];
+
+const STEPS: [string, number][] = [
+  ['C', 0], ['C', 1], ['D', 0], ['D', 1], ['E', 0], ['F', 0],
+  ['F', 1], ['G', 0], ['G', 1], ['A', 0], ['A', 1], ['B', 0],
+];
+
+// A chord (or rest, with no pitches) occupying [start, start + length) in slots
+interface Segment {
+  start: number;
+  length: number;
+  pitches: number[]; // MIDI note numbers
+}
+
+// A printable note value, never crossing a barline
+interface Piece extends Segment {
+  tieStart: boolean;
+  tieStop: boolean;
+}
+
+interface Cue {
+  slot: number;
+  patterns: AnyPatternId[];
+  phase: ThoughtPhase | null; // set where a new phase begins
+}
+
+export interface MusicXmlOptions {
+  title?: string;
+  routing?: RoutingMatrix;
+  patterns?: PatternDefinition<AnyPatternId>[]; // custom patterns included; built-ins only if omitted
+}
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toSlot = (seconds: number): number => Math.max(0, Math.round(seconds * SLOTS_PER_SECOND));
+
+const pitchXml = (midi: number): string => {
+  const [step, alter] = STEPS[midi % 12];
+  const octave = Math.floor(midi / 12) - 1;
+  return `<pitch><step>${step}</step>${alter ? `<alter>${alter}</alter>` : ''}<octave>${octave}</octave></pitch>`;
+};
+
+// Split a length into printable note values
+const splitLength = (length: number): number[] => {
+  const parts: number[] = [];
+  let rest = length;
+  while (rest > 0) {
+    const fit = NOTE_TYPES.find((t) => t.slots <= rest)!;
+    parts.push(fit.slots);
+    rest -= fit.slots;
+  }
+  return parts;
+};
+
+// Quantize one layer's notes into a single voice: notes starting on the same slot
+// become a chord, and each chord is cut short where the next one begins
+const layerSegments = (notes: NoteEvent[], unpitched: boolean): Segment[] => {
+  const chords = new Map<number, { end: number; pitches: Set<number> }>();
+
+  notes.forEach((note) => {
+    const start = toSlot(note.time);
+    const end = Math.max(start + 1, toSlot(note.time + note.duration));
+    const pitch = unpitched ? 0 : Math.min(127, Math.max(0, Math.round(frequencyToMidi(note.frequency))));
+    const chord = chords.get(start) ?? { end, pitches: new Set<number>() };
+    chord.end = Math.max(chord.end, end);
+    chord.pitches.add(pitch);
+    chords.set(start, chord);
+  });
+
+  const starts = [...chords.keys()].sort((a, b) => a - b);
+  return starts.map((start, i) => {
+    const chord = chords.get(start)!;
+    const next = starts[i + 1] ?? Infinity;
+    return { start, length: Math.min(chord.end, next) - start, pitches: [...chord.pitches].sort((a, b) => a - b) };
+  });
+};
+
+// Fill the gaps with rests and break everything at barlines into printable values;
+// tied pieces carry a split note across a barline or an unprintable length
+const layoutVoice = (segments: Segment[], totalSlots: number): Piece[] => {
+  const filled: Segment[] = [];
+  let cursor = 0;
+  segments.forEach((segment) => {
+    if (segment.start > cursor) filled.push({ start: cursor, length: segment.start - cursor, pitches: [] });
+    filled.push(segment);
+    cursor = segment.start + segment.length;
+  });
+  if (cursor < totalSlots) filled.push({ start: cursor, length: totalSlots - cursor, pitches: [] });
+
+  const pieces: Piece[] = [];
+  filled.forEach((segment) => {
+    const segmentEnd = segment.start + segment.length;
+    let position = segment.start;
+    while (position < segmentEnd) {
+      const barEnd = (Math.floor(position / MEASURE_SLOTS) + 1) * MEASURE_SLOTS;
+      splitLength(Math.min(segmentEnd, barEnd) - position).forEach((length) => {
+        const tied = segment.pitches.length > 0;
+        pieces.push({
+          start: position,
+          length,
+          pitches: segment.pitches,
+          tieStop: tied && position > segment.start,
+          tieStart: tied && position + length < segmentEnd,
+        });
+        position += length;
+      });
+    }
+  });
+  return pieces;
+};
+
+const noteXml = (piece: Piece, unpitched: boolean): string => {
+  const { type, dotted } = NOTE_TYPES.find((t) => t.slots === piece.length)!;
+  const value = `<duration>${piece.length}</duration>`;
+  const ties = `${piece.tieStop ? '<tie type="stop"/>' : ''}${piece.tieStart ? '<tie type="start"/>' : ''}`;
+  const look = `<type>${type}</type>${dotted ? '<dot/>' : ''}`;
+  const tied = piece.tieStop || piece.tieStart
+    ? `<notations>${piece.tieStop ? '<tied type="stop"/>' : ''}${piece.tieStart ? '<tied type="start"/>' : ''}</notations>`
+    : '';
+
+  if (piece.pitches.length === 0) {
+    return `<note><rest/>${value}<voice>1</voice>${look}</note>`;
+  }
+  if (unpitched) {
+    return `<note><unpitched><display-step>C</display-step><display-octave>5</display-octave></unpitched>${value}${ties}<voice>1</voice>${look}<notehead>x</notehead>${tied}</note>`;
+  }
+  return piece.pitches
+    .map((midi, i) => `<note>${i > 0 ? '<chord/>' : ''}${pitchXml(midi)}${value}${ties}<voice>1</voice>${look}${tied}</note>`)
+    .join('');
+};
+
+const cueXml = (cue: Cue, offset: number): string => {
+  const at = offset > 0 ? `<offset>${offset}</offset>` : '';
+  const parts: string[] = [];
+  if (cue.phase) {
+    const label = cue.phase.charAt(0).toUpperCase() + cue.phase.slice(1);
+    parts.push(`<direction placement="above"><direction-type><rehearsal>${label}</rehearsal></direction-type>${at}</direction>`);
+  }
+  if (cue.patterns.length > 0) {
+    parts.push(`<direction placement="above"><direction-type><words font-style="italic">${cue.patterns.join(', ')}</words></direction-type>${at}</direction>`);
+  }
+  return parts.join('');
+};
+
+// Where patterns fired, and where the phase they imply differs from the last one
+const traceCues = (trace: ThoughtTrace, patterns?: PatternDefinition<AnyPatternId>[]): Cue[] => {
+  const { chunks } = traceTimeline(trace, patterns);
+  const cues = new Map<number, Cue>();
+  let currentPhase: ThoughtPhase | null = null;
+
+  chunks.forEach(({ time, matches }) => {
+    if (matches.length === 0) return;
+    const slot = toSlot(time);
+    const cue = cues.get(slot) ?? { slot, patterns: [], phase: null };
+    firedPatterns(matches).forEach((id) => {
+      if (!cue.patterns.includes(id)) cue.patterns.push(id);
+    });
+
+    const { phase } = detectPhase(matches);
+    if (phase !== 'thinking' && phase !== currentPhase) {
+      currentPhase = phase;
+      cue.phase = phase;
+    }
+    cues.set(slot, cue);
+  });
+
+  return [...cues.values()].sort((a, b) => a.slot - b.slot);
+};
+
+export const encodeMusicXml = (trace: ThoughtTrace, options: MusicXmlOptions = {}): string => {
+  const { notes } = scoreTrace(trace, undefined, options.routing, options.patterns);
+  const cues = traceCues(trace, options.patterns);
+
+  const lastSlot = Math.max(
+    1,
+    ...notes.map((note) => toSlot(note.time + note.duration)),
+    ...cues.map((cue) => cue.slot + 1)
+  );
+  const measureCount = Math.ceil(lastSlot / MEASURE_SLOTS);
+  const totalSlots = measureCount * MEASURE_SLOTS;
+
+  const parts = STAVES.map((staff, index) => {
+    const unpitched = staff.clef === 'percussion';
+    const pieces = layoutVoice(layerSegments(notes.filter((note) => note.layer === staff.layer), unpitched), totalSlots);
+    const measures: string[] = [];
+
+    for (let m = 0; m < measureCount; m++) {
+      const measureStart = m * MEASURE_SLOTS;
+      const measureEnd = measureStart + MEASURE_SLOTS;
+      let body = '';
+
+      if (m === 0) {
+        body += `<attributes><divisions>${DIVISIONS}</divisions><key><fifths>0</fifths></key><time><beats>4</beats><beat-type>4</beat-type></time>${CLEFS[staff.clef]}</attributes>`;
+        if (index === 0) {
+          body += `<direction placement="above"><direction-type><metronome><beat-unit>quarter</beat-unit><per-minute>${BPM}</per-minute></metronome></direction-type><sound tempo="${BPM}"/></direction>`;
+        }
+      }
+
+      pieces
+        .filter((piece) => piece.start >= measureStart && piece.start < measureEnd)
+        .forEach((piece) => {
+          // Annotations ride on the top staff, attached to the note or rest sounding at that slot
+          if (index === 0) {
+            cues
+              .filter((cue) => cue.slot >= piece.start && cue.slot < piece.start + piece.length)
+              .forEach((cue) => { body += cueXml(cue, cue.slot - piece.start); });
+          }
+          body += noteXml(piece, unpitched);
+        });
+
+      if (m === measureCount - 1) {
+        body += '<barline location="right"><bar-style>light-heavy</bar-style></barline>';
+      }
+      measures.push(`<measure number="${m + 1}">${body}</measure>`);
+    }
+
+    return `<part id="P${index + 1}">${measures.join('\n')}</part>`;
+  });
+
+  const partList = STAVES.map((staff, index) =>
+    `<score-part id="P${index + 1}"><part-name>${staff.name}</part-name></score-part>`
+  ).join('');
+  const title = escapeXml(options.title ?? 'Process Thought');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+    '<score-partwise version="4.0">',
+    `<work><work-title>${title}</work-title></work>`,
+    `<identification><creator type="composer">${escapeXml(trace.start.model)}</creator><encoding><software>Process Thought</software><encoding-date>${trace.recorded_at.slice(0, 10)}</encoding-date></encoding></identification>`,
+    `<part-list>${partList}</part-list>`,
+    ...parts,
+    '</score-partwise>',
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,116 @@
+import OpenAI from 'openai';
+import { ReasoningProvider, blockTracker, plainHistory } from './reasoningProvider';
+
+// Local OpenAI-compatible servers (llama.cpp, Ollama, vLLM...) at OPENAI_COMPATIBLE_BASE_URL.
+// Reasoning models there write their thinking inline as <think>…</think> before the
+// answer; some servers split it out into a `reasoning_content` field instead.
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+export interface ThinkSegment {
+  kind: 'thinking' | 'answer';
+  text: string;
+}
+
+// Splits streamed text at <think> tags, holding back a tag cut in half between chunks
+export class ThinkTagParser {
+  private inThink = false;
+  private buffer = '';
+
+  push(text: string): ThinkSegment[] {
+    const segments: ThinkSegment[] = [];
+    this.buffer += text;
+
+    for (;;) {
+      const tag = this.inThink ? CLOSE_TAG : OPEN_TAG;
+      const at = this.buffer.indexOf(tag);
+      if (at === -1) break;
+      this.emit(segments, this.buffer.slice(0, at));
+      this.buffer = this.buffer.slice(at + tag.length);
+      this.inThink = !this.inThink;
+    }
+
+    // Keep back any ending that could be the start of the next tag
+    const tag = this.inThink ? CLOSE_TAG : OPEN_TAG;
+    let keep = Math.min(tag.length - 1, this.buffer.length);
+    while (keep > 0 && !tag.startsWith(this.buffer.slice(-keep))) keep--;
+    this.emit(segments, this.buffer.slice(0, this.buffer.length - keep));
+    this.buffer = this.buffer.slice(this.buffer.length - keep);
+    return segments;
+  }
+
+  // Whatever is left once the stream ends
+  flush(): ThinkSegment[] {
+    const segments: ThinkSegment[] = [];
+    this.emit(segments, this.buffer);
+    this.buffer = '';
+    return segments;
+  }
+
+  private emit(segments: ThinkSegment[], text: string) {
+    if (text) segments.push({ kind: this.inThink ? 'thinking' : 'answer', text });
+  }
+}
+
+const baseUrl = () => process.env.OPENAI_COMPATIBLE_BASE_URL;
+
+export const openaiCompatibleProvider: ReasoningProvider = {
+  id: 'openai-compatible',
+
+  configError() {
+    return baseUrl() ? null : 'OPENAI_COMPATIBLE_BASE_URL not configured. Please add your server URL to .env.local';
+  },
+
+  async stream(request, sink, signal, apiKey) {
+    // Local servers usually ignore the key, but the client insists on one
+    const client = new OpenAI({ baseURL: baseUrl(), apiKey: apiKey ?? (process.env.OPENAI_COMPATIBLE_API_KEY || 'local') });
+    const blocks = blockTracker(sink);
+    const parser = new ThinkTagParser();
+    let answer = '';
+
+    const write = ({ kind, text }: ThinkSegment) => {
+      if (kind === 'thinking') {
+        blocks.enter('thinking');
+        sink.thinking(text);
+        return;
+      }
+      // Drop the blank lines between </think> and the answer
+      const chunk = answer ? text : text.trimStart();
+      if (!chunk) return;
+      blocks.enter('text');
+      answer += chunk;
+      sink.answer(chunk);
+    };
+
+    const stream = await client.chat.completions.create({
+      model: request.model,
+      messages: plainHistory(request),
+      max_tokens: request.max_tokens,
+      temperature: request.temperature,
+      stream: true,
+      stream_options: { include_usage: true },
+    }, { signal });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta as { content?: string | null; reasoning_content?: string | null } | undefined;
+      if (delta?.reasoning_content) write({ kind: 'thinking', text: delta.reasoning_content });
+      if (delta?.content) parser.push(delta.content).forEach(write);
+
+      // Sent with the last chunk by servers that count tokens
+      if (chunk.usage) {
+        const reasoning = chunk.usage.completion_tokens_details?.reasoning_tokens;
+        sink.usage({
+          input_tokens: chunk.usage.prompt_tokens,
+          output_tokens: chunk.usage.completion_tokens,
+          ...(reasoning !== undefined && { thinking_tokens: reasoning }),
+        });
+      }
+    }
+    parser.flush().forEach(write);
+    blocks.close();
+
+    // No text block for an empty answer: chat APIs reject empty assistant turns
+    return answer ? [{ type: 'text', text: answer }] : [];
+  },
+};
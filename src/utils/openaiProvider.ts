@@ -0,0 +1,76 @@
+import OpenAI from 'openai';
+import { ReasoningProvider, blockTracker, plainHistory } from './reasoningProvider';
+
+// OpenAI reasoning models through the Responses API. The raw reasoning stays hidden,
+// so the thinking pane gets the reasoning summary instead, streamed as it's written.
+// Temperature isn't accepted by reasoning models and is ignored.
+
+const serverKey = () => process.env.OPENAI_API_KEY;
+
+// The thinking budget picks an effort level; OpenAI doesn't take a token budget
+export const reasoningEffort = (budgetTokens: number): 'low' | 'medium' | 'high' =>
+  budgetTokens < 4000 ? 'low' : budgetTokens < 16000 ? 'medium' : 'high';
+
+export const openaiProvider: ReasoningProvider = {
+  id: 'openai',
+
+  configError(apiKey) {
+    return (apiKey ?? serverKey()) ? null : 'OPENAI_API_KEY not configured. Please add your API key to .env.local';
+  },
+
+  async stream(request, sink, signal, apiKey) {
+    const client = new OpenAI({ apiKey: apiKey ?? serverKey() });
+    const blocks = blockTracker(sink);
+    let answer = '';
+
+    const stream = await client.responses.create({
+      model: request.model,
+      input: plainHistory(request),
+      max_output_tokens: request.max_tokens,
+      reasoning: { effort: reasoningEffort(request.budget_tokens), summary: 'auto' },
+      stream: true,
+    }, { signal });
+
+    for await (const event of stream) {
+      switch (event.type) {
+        case 'response.reasoning_summary_part.added':
+          // Summaries come in parts; keep them apart as paragraphs
+          if (event.summary_index > 0) {
+            blocks.enter('thinking');
+            sink.thinking('\n\n');
+          }
+          break;
+        case 'response.reasoning_summary_text.delta':
+          blocks.enter('thinking');
+          sink.thinking(event.delta);
+          break;
+        case 'response.output_text.delta':
+          blocks.enter('text');
+          answer += event.delta;
+          sink.answer(event.delta);
+          break;
+        case 'response.completed': {
+          // Cached tokens are part of input_tokens; the reasoning count is exact
+          const { usage } = event.response;
+          if (usage) {
+            sink.usage({
+              input_tokens: usage.input_tokens - usage.input_tokens_details.cached_tokens,
+              output_tokens: usage.output_tokens,
+              cache_read_input_tokens: usage.input_tokens_details.cached_tokens,
+              thinking_tokens: usage.output_tokens_details.reasoning_tokens,
+            });
+          }
+          break;
+        }
+        case 'response.failed':
+          throw new Error(event.response.error?.message ?? 'OpenAI response failed');
+        case 'error':
+          throw new Error(event.message);
+      }
+    }
+    blocks.close();
+
+    // No text block for an empty answer: chat APIs reject empty assistant turns
+    return answer ? [{ type: 'text', text: answer }] : [];
+  },
+};
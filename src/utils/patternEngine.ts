@@ -0,0 +1,335 @@
+// Shared linguistic pattern engine.
+// The page highlighter, ThoughtAudio and ThoughtCanvas all detect markers through
+// this module so that what gets highlighted is exactly what gets heard and seen.
+
+export type CognitiveAxis = 'certainty' | 'reasoning' | 'revision' | 'resolution';
+
+export type PatternId =
+  | 'uncertainty'
+  | 'certainty'
+  | 'revision'
+  | 'question'
+  | 'enumeration'
+  | 'emphasis'
+  | 'negation'
+  | 'causation'
+  | 'hedging'
+  | 'comparison'
+  | 'resolution'
+  | 'metacognition';
+
+// User-defined patterns (see customPatterns.ts); built-in ids never contain a colon
+export type CustomPatternId = `custom:${string}`;
+
+export type AnyPatternId = PatternId | CustomPatternId;
+
+export type ActiveAxes = Record<CognitiveAxis, boolean>;
+
+// Built-in patterns by default; code that also handles custom ones widens Id to AnyPatternId
+export interface PatternDefinition<Id extends AnyPatternId = PatternId> {
+  id: Id;
+  axis: CognitiveAxis | null; // null = affects intensity only, never highlighted
+  regex: RegExp; // must carry the global flag
+  className: string; // Tailwind highlight classes
+}
+
+export interface PatternMatch<Id extends AnyPatternId = PatternId> {
+  patternId: Id;
+  axis: CognitiveAxis | null;
+  text: string;
+  start: number; // character offset, inclusive
+  end: number; // character offset, exclusive
+}
+
+export const AXES: CognitiveAxis[] = ['certainty', 'reasoning', 'revision', 'resolution'];
+
+// Multi-word markers tolerate any whitespace between words (line breaks included)
+export const markers = (words: string[], extra?: string): RegExp => {
+  const alternatives = words.map((word) => word.split(' ').join('\\s+')).join('|');
+  return new RegExp(`\\b(?:${alternatives})\\b${extra ? `|${extra}` : ''}`, 'gi');
+};
+
+export const PATTERNS: PatternDefinition[] = [
+  {
+    id: 'uncertainty',
+    axis: 'certainty',
+    regex: markers(['maybe', 'might', 'possibly', 'perhaps', 'could', 'seems', 'appears', 'uncertain', 'unsure', 'probably', 'likely']),
+    className: 'bg-purple-200 text-purple-900',
+  },
+  {
+    id: 'certainty',
+    axis: 'certainty',
+    regex: markers(['clearly', 'definitely', 'must', 'obviously', 'certainly', 'surely', 'indeed', 'undoubtedly', 'always', 'never']),
+    className: 'bg-green-200 text-green-900',
+  },
+  {
+    id: 'revision',
+    axis: 'revision',
+    regex: markers(['actually', 'wait', 'however', 'but', 'although', 'though', 'yet', 'nevertheless', 'nonetheless', 'hmm', 'reconsider', 'rethink'], '\\bno(?=,)'),
+    className: 'bg-red-200 text-red-900',
+  },
+  {
+    id: 'question',
+    axis: 'revision',
+    regex: /\?/g,
+    className: 'bg-blue-200 text-blue-900',
+  },
+  {
+    id: 'enumeration',
+    axis: 'reasoning',
+    regex: markers(['first', 'second', 'third', 'next', 'then', 'finally', 'lastly', 'step \\d+', 'initially', 'subsequently'], '\\b\\d+[.)](?=\\s)'),
+    className: 'bg-yellow-200 text-yellow-900',
+  },
+  {
+    id: 'emphasis',
+    axis: 'resolution',
+    regex: markers(['really', 'very', 'extremely', 'quite', 'highly', 'particularly', 'especially', 'significantly', 'crucially', 'absolutely']),
+    className: 'bg-orange-200 text-orange-900',
+  },
+  {
+    id: 'negation',
+    axis: 'revision',
+    regex: markers(['not', 'never', "won't", "can't", "isn't", "aren't", "wasn't", "weren't", "don't", "doesn't", "didn't", 'no']),
+    className: 'bg-gray-300 text-gray-900',
+  },
+  {
+    id: 'causation',
+    axis: 'reasoning',
+    regex: markers(['because', 'therefore', 'thus', 'hence', 'consequently', 'as a result', 'so', 'since', 'given that', 'due to']),
+    className: 'bg-indigo-200 text-indigo-900',
+  },
+  {
+    id: 'hedging',
+    axis: 'certainty',
+    regex: markers(['sort of', 'kind of', 'somewhat', 'relatively', 'fairly', 'rather', 'more or less', 'approximately']),
+    className: 'bg-pink-200 text-pink-900',
+  },
+  {
+    id: 'comparison',
+    axis: 'reasoning',
+    regex: markers(['similar', 'different', 'unlike', 'whereas', 'compared to', 'in contrast', 'on the other hand', 'alternatively']),
+    className: 'bg-cyan-200 text-cyan-900',
+  },
+  {
+    id: 'resolution',
+    axis: 'resolution',
+    regex: markers(['in conclusion', 'to summarize', 'ultimately', 'in the end', 'overall', 'in summary', 'final', 'conclusion']),
+    className: 'bg-emerald-200 text-emerald-900',
+  },
+  {
+    id: 'metacognition',
+    axis: null,
+    regex: markers(['I think', 'I believe', "I'm not sure", 'I wonder', 'let me', 'I need to', 'I should']),
+    className: '',
+  },
+];
+
+// How much of the detection the page highlights; recorded with archived runs
+export type PresetMode = 'minimal' | 'standard' | 'maximum';
+
+export const PRESET_MODES: PresetMode[] = ['minimal', 'standard', 'maximum'];
+
+const STANDARD_PATTERNS: PatternId[] = [
+  'uncertainty', 'certainty', 'revision', 'question', 'enumeration', 'emphasis',
+  'negation', 'causation', 'hedging', 'comparison', 'resolution',
+];
+
+// Patterns highlighted in the thinking pane for each preset
+export const PRESET_PATTERNS: Record<PresetMode, PatternId[]> = {
+  minimal: ['certainty', 'revision', 'question'],
+  standard: STANDARD_PATTERNS,
+  maximum: STANDARD_PATTERNS,
+};
+
+const PATTERNS_BY_ID = new Map(PATTERNS.map((pattern) => [pattern.id, pattern]));
+
+export const getPattern = (id: PatternId): PatternDefinition | undefined => PATTERNS_BY_ID.get(id);
+
+export const isCustomPatternId = (id: AnyPatternId): id is CustomPatternId => id.startsWith('custom:');
+
+// Return every match of every pattern, ordered by position then by PATTERNS order
+export const detectPatterns = <Id extends AnyPatternId = PatternId>(
+  text: string,
+  patterns: PatternDefinition<Id>[] = PATTERNS as PatternDefinition<Id>[]
+): PatternMatch<Id>[] => {
+  const matches: PatternMatch<Id>[] = [];
+
+  patterns.forEach((pattern) => {
+    for (const match of text.matchAll(pattern.regex)) {
+      if (match.index === undefined || match[0].length === 0) continue;
+      matches.push({
+        patternId: pattern.id,
+        axis: pattern.axis,
+        text: match[0],
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+  });
+
+  const order = new Map(patterns.map((pattern, i) => [pattern.id, i]));
+  return matches.sort((a, b) => a.start - b.start || (order.get(a.patternId) ?? 0) - (order.get(b.patternId) ?? 0));
+};
+
+export const firedPatterns = <Id extends AnyPatternId>(matches: PatternMatch<Id>[]): Set<Id> =>
+  new Set(matches.map((match) => match.patternId));
+
+export const getActiveAxes = (matches: PatternMatch<AnyPatternId>[]): ActiveAxes => {
+  const axes: ActiveAxes = { certainty: false, reasoning: false, revision: false, resolution: false };
+  matches.forEach((match) => {
+    if (match.axis) axes[match.axis] = true;
+  });
+  return axes;
+};
+
+// === Highlight segments ===
+
+export interface TextSegment<Id extends AnyPatternId = PatternId> {
+  text: string;
+  start: number;
+  matches: PatternMatch<Id>[]; // empty for plain text; several when patterns share a span
+}
+
+// Split text into plain and highlighted runs. Overlapping matches keep the earliest
+// span; matches covering the exact same span are grouped together.
+export const segmentText = <Id extends AnyPatternId>(text: string, matches: PatternMatch<Id>[], offset = 0): TextSegment<Id>[] => {
+  const segments: TextSegment<Id>[] = [];
+  let cursor = offset;
+
+  const sorted = [...matches].sort((a, b) => a.start - b.start);
+  sorted.forEach((match) => {
+    const previous = segments[segments.length - 1];
+    if (previous && previous.matches.length > 0 && previous.start === match.start &&
+        previous.start + previous.text.length === match.end) {
+      previous.matches.push(match);
+      return;
+    }
+    if (match.start < cursor || match.end > offset + text.length) return;
+
+    if (match.start > cursor) {
+      segments.push({ text: text.slice(cursor - offset, match.start - offset), start: cursor, matches: [] });
+    }
+    segments.push({ text: text.slice(match.start - offset, match.end - offset), start: match.start, matches: [match] });
+    cursor = match.end;
+  });
+
+  if (cursor < offset + text.length) {
+    segments.push({ text: text.slice(cursor - offset), start: cursor, matches: [] });
+  }
+
+  return segments;
+};
+
+// === Cognitive phases (visuals) ===
+
+export type ThoughtPhase = 'questioning' | 'backtracking' | 'reasoning' | 'concluding' | 'thinking' | 'idle';
+
+// Checked in order: the first phase with a fired pattern wins
+const PHASE_RULES: { phase: ThoughtPhase; intensity: number; patterns: AnyPatternId[] }[] = [
+  { phase: 'questioning', intensity: 0.8, patterns: ['question', 'uncertainty', 'hedging'] },
+  { phase: 'backtracking', intensity: 1.0, patterns: ['revision', 'comparison'] },
+  { phase: 'reasoning', intensity: 0.6, patterns: ['causation', 'enumeration'] },
+  { phase: 'concluding', intensity: 0.9, patterns: ['certainty', 'resolution'] },
+];
+
+export const detectPhase = (matches: PatternMatch<AnyPatternId>[]): { phase: ThoughtPhase; intensity: number; trigger?: string } => {
+  for (const rule of PHASE_RULES) {
+    const match = matches.find((m) => rule.patterns.includes(m.patternId));
+    if (match) {
+      return { phase: rule.phase, intensity: rule.intensity, trigger: match.text };
+    }
+  }
+  return { phase: 'thinking', intensity: 0.5 };
+};
+
+// === Streaming detection ===
+
+export interface StreamMatch<Id extends AnyPatternId = PatternId> extends PatternMatch<Id> {
+  chunkIndex: number; // chunk that delivered the match's last character
+}
+
+// Detects markers across chunk boundaries. Keeps a short tail of previous text so
+// multi-word markers split between deltas still match, and reports each match
+// exactly once, as soon as the character that completes it has arrived.
+export class StreamingPatternDetector<Id extends AnyPatternId = PatternId> {
+  private patterns: PatternDefinition<Id>[];
+  private tailSize: number;
+  private buffer: string = '';
+  private bufferStart: number = 0; // absolute offset of buffer[0]
+  private length: number = 0;
+  private chunkStarts: number[] = [];
+  private emitted: Set<string> = new Set();
+
+  // tailSize must exceed the longest marker
+  constructor(patterns: PatternDefinition<Id>[] = PATTERNS as PatternDefinition<Id>[], tailSize: number = 64) {
+    this.patterns = patterns;
+    this.tailSize = tailSize;
+  }
+
+  push(text: string): StreamMatch<Id>[] {
+    this.chunkStarts.push(this.length);
+    this.buffer += text;
+    this.length += text.length;
+    return this.scan(false);
+  }
+
+  // End of stream: matches waiting on a following character are final now
+  flush(): StreamMatch<Id>[] {
+    return this.scan(true);
+  }
+
+  reset(): void {
+    this.buffer = '';
+    this.bufferStart = 0;
+    this.length = 0;
+    this.chunkStarts = [];
+    this.emitted.clear();
+  }
+
+  getLength(): number {
+    return this.length;
+  }
+
+  private scan(final: boolean): StreamMatch<Id>[] {
+    const results: StreamMatch<Id>[] = [];
+
+    detectPatterns(this.buffer, this.patterns).forEach((match) => {
+      // The character before the buffer is gone, so a word boundary at index 0 can't be trusted
+      if (match.start === 0 && this.bufferStart > 0) return;
+
+      const start = this.bufferStart + match.start;
+      const end = this.bufferStart + match.end;
+
+      // A match ending on a word character at the edge may still grow ("final" → "finally")
+      if (!final && end === this.length && /\w$/.test(match.text)) return;
+
+      const key = `${match.patternId}:${start}`;
+      if (this.emitted.has(key)) return;
+      this.emitted.add(key);
+
+      results.push({ ...match, start, end, chunkIndex: this.chunkIndexAt(end - 1) });
+    });
+
+    this.trim();
+    return results;
+  }
+
+  private chunkIndexAt(offset: number): number {
+    for (let i = this.chunkStarts.length - 1; i >= 0; i--) {
+      if (this.chunkStarts[i] <= offset) return i;
+    }
+    return 0;
+  }
+
+  private trim(): void {
+    if (this.buffer.length <= this.tailSize) return;
+
+    this.bufferStart += this.buffer.length - this.tailSize;
+    this.buffer = this.buffer.slice(-this.tailSize);
+
+    this.emitted.forEach((key) => {
+      const start = Number(key.slice(key.lastIndexOf(':') + 1));
+      if (start < this.bufferStart) this.emitted.delete(key);
+    });
+  }
+}
@@ -0,0 +1,61 @@
+import { TokenUsage } from './streamEvents';
+
+// What a run cost, from the tokens it used. Prices are USD per million tokens; set
+// MODEL_PRICES on the server to a JSON object of the same shape, keyed by model id,
+// to change them or to price other models (local models are free: { "input": 0, "output": 0 }).
+
+export interface ModelPrice {
+  input: number;
+  output: number; // thinking is billed as output
+  cache_write?: number; // defaults to the input price
+  cache_read?: number; // defaults to the input price
+}
+
+export const PRICES: Record<string, ModelPrice> = {
+  'claude-sonnet-4-5': { input: 3, output: 15, cache_write: 3.75, cache_read: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cache_write: 1.25, cache_read: 0.1 },
+  'claude-opus-4-1': { input: 15, output: 75, cache_write: 18.75, cache_read: 1.5 },
+  'claude-3-7-sonnet-20250219': { input: 3, output: 15, cache_write: 3.75, cache_read: 0.3 },
+  'gpt-5': { input: 1.25, output: 10, cache_read: 0.125 },
+  'gpt-5-mini': { input: 0.25, output: 2, cache_read: 0.025 },
+  'o4-mini': { input: 1.1, output: 4.4, cache_read: 0.275 },
+};
+
+const isPrice = (value: unknown): value is ModelPrice => {
+  if (typeof value !== 'object' || value === null) return false;
+  const p = value as Record<string, unknown>;
+  return typeof p.input === 'number' && typeof p.output === 'number'
+    && (p.cache_write === undefined || typeof p.cache_write === 'number')
+    && (p.cache_read === undefined || typeof p.cache_read === 'number');
+};
+
+// The built-in table with MODEL_PRICES applied on top; malformed entries are ignored
+export const priceTable = (): Record<string, ModelPrice> => {
+  const prices = { ...PRICES };
+  if (!process.env.MODEL_PRICES) return prices;
+  try {
+    const overrides: unknown = JSON.parse(process.env.MODEL_PRICES);
+    if (typeof overrides === 'object' && overrides !== null) {
+      Object.entries(overrides).forEach(([model, price]) => {
+        if (isPrice(price)) prices[model] = price;
+      });
+    }
+  } catch {
+    console.error('MODEL_PRICES is not valid JSON; using the built-in prices');
+  }
+  return prices;
+};
+
+// Cost in USD, or null when the model has no price
+export const runCost = (usage: TokenUsage, price: ModelPrice | undefined): number | null => {
+  if (!price) return null;
+  const perToken = (perMillion: number) => perMillion / 1_000_000;
+  return usage.input_tokens * perToken(price.input)
+    + usage.output_tokens * perToken(price.output)
+    + usage.cache_creation_input_tokens * perToken(price.cache_write ?? price.input)
+    + usage.cache_read_input_tokens * perToken(price.cache_read ?? price.input);
+};
+
+// "$0.0123", with more precision for tiny amounts
+export const formatCost = (cost: number): string =>
+  cost >= 1 ? `$${cost.toFixed(2)}` : cost >= 0.01 ? `$${cost.toFixed(3)}` : `$${cost.toFixed(4)}`;
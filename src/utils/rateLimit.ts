@@ -0,0 +1,127 @@
+import { createHash } from 'crypto';
+
+// Per-client limits for shared deployments (server only): a token bucket on requests
+// and a daily quota on model tokens. State lives in memory, so each server instance
+// counts separately and a restart starts everyone afresh.
+//
+//   RATE_LIMIT_PER_MINUTE  requests a client may start per minute (unset: no limit)
+//   RATE_LIMIT_BURST       requests a client may start at once (default: the per-minute rate)
+//   DAILY_TOKEN_QUOTA      tokens per client per UTC day on the server's key (unset: no quota)
+//   TRUST_PROXY            proxies in front of the server that append to X-Forwarded-For:
+//                          `true` for one, or a count (unset: the header is ignored)
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export type LimitResult = { ok: true } | { ok: false; retryAfterMs: number };
+
+// Tokens held against a client's quota while its run is in flight
+export interface QuotaReservation {
+  client: string;
+  day: number;
+  tokens: number;
+}
+
+export type ReserveResult = { ok: true; reservation: QuotaReservation } | { ok: false; retryAfterMs: number };
+
+// Holds up to `capacity` tokens, refilled continuously; each request takes one
+export class TokenBucketLimiter {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  constructor(private capacity: number, private refillPerMs: number) {}
+
+  take(client: string, now = Date.now()): LimitResult {
+    const bucket = this.buckets.get(client) ?? { tokens: this.capacity, updatedAt: now };
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(client, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      this.prune(now);
+      return { ok: true };
+    }
+    return { ok: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / this.refillPerMs) };
+  }
+
+  // Forget clients whose buckets have refilled; they'd start full anyway
+  private prune(now: number) {
+    this.buckets.forEach((bucket, client) => {
+      if (bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs >= this.capacity) {
+        this.buckets.delete(client);
+      }
+    });
+  }
+}
+
+// Tokens used per client since the start of the UTC day
+export class DailyQuota {
+  private day = -1;
+  private used = new Map<string, number>();
+
+  constructor(private limit: number) {}
+
+  private roll(now: number) {
+    const day = Math.floor(now / DAY_MS);
+    if (day !== this.day) {
+      this.day = day;
+      this.used.clear();
+    }
+  }
+
+  // Hold the most a run could use up front, so concurrent runs can't all pass on the
+  // same unspent balance
+  reserve(client: string, tokens: number, now = Date.now()): ReserveResult {
+    this.roll(now);
+    const used = this.used.get(client) ?? 0;
+    if (used >= this.limit) {
+      return { ok: false, retryAfterMs: (this.day + 1) * DAY_MS - now };
+    }
+    this.used.set(client, used + tokens);
+    return { ok: true, reservation: { client, day: this.day, tokens } };
+  }
+
+  // Swap the hold for what the run actually used, finished or not. A hold from an
+  // earlier day was already cleared, so the tokens count against today.
+  settle(reservation: QuotaReservation, tokens: number, now = Date.now()) {
+    this.roll(now);
+    const held = reservation.day === this.day ? reservation.tokens : 0;
+    const used = this.used.get(reservation.client) ?? 0;
+    this.used.set(reservation.client, Math.max(0, used - held + tokens));
+  }
+}
+
+const envNumber = (name: string): number | null => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : null;
+};
+
+const perMinute = envNumber('RATE_LIMIT_PER_MINUTE');
+export const requestLimiter = perMinute === null
+  ? null
+  : new TokenBucketLimiter(envNumber('RATE_LIMIT_BURST') ?? perMinute, perMinute / MINUTE_MS);
+
+const quota = envNumber('DAILY_TOKEN_QUOTA');
+export const dailyQuota = quota === null ? null : new DailyQuota(quota);
+
+const trustedProxies = process.env.TRUST_PROXY === 'true' ? 1 : Math.floor(envNumber('TRUST_PROXY') ?? 0);
+
+// Who a request counts against: the key it brought, else its address. Keys are
+// hashed so they're never held in memory as given. Address headers are only read
+// behind trusted proxies; otherwise anyone could claim a fresh address per request,
+// so keyless clients share one allowance.
+export const clientId = (headers: Headers, apiKey?: string): string => {
+  if (apiKey) {
+    return `key:${createHash('sha256').update(apiKey).digest('hex').slice(0, 16)}`;
+  }
+  if (trustedProxies === 0) {
+    return 'ip:unknown';
+  }
+  // Each proxy appends the address it saw, so entries left of ours came from the client
+  const forwarded = (headers.get('x-forwarded-for') ?? '').split(',').map((entry) => entry.trim()).filter(Boolean);
+  const address = forwarded[Math.max(0, forwarded.length - trustedProxies)] || headers.get('x-real-ip');
+  return `ip:${address || 'unknown'}`;
+};
+
+// Whole seconds for a Retry-After header
+export const retryAfterSeconds = (ms: number): number => Math.max(1, Math.ceil(ms / 1000));
@@ -0,0 +1,126 @@
+import { AssistantContentBlock } from './conversation';
+import { ProviderId } from './models';
+import { StreamEvent, TokenUsage } from './streamEvents';
+import { StreamRequest } from './streamRequest';
+
+// Reasoning backends behind /api/stream (server only). A provider turns its own stream
+// into calls on a ReasoningSink, which emits the common events; the route wraps them
+// in `start`, `end`, `answer` and `turn`.
+
+export interface ReasoningSink {
+  thinking(text: string): void; // a `delta`
+  answer(text: string): void; // an `answer_delta`
+  blockStart(index: number, blockType: string): void;
+  blockStop(index: number): void;
+  signature(index: number, signature: string): void;
+  redacted(index: number): void; // a hidden thought
+  // Token counts as the provider learns them; later reports overwrite earlier ones
+  usage(reported: Partial<Omit<TokenUsage, 'thinking_estimated'>>): void;
+}
+
+// `apiKey` is the user's own key when they brought one; otherwise providers use the server's
+export interface ReasoningProvider {
+  id: ProviderId;
+  // Why the server can't use this provider (a missing key), or null
+  configError(apiKey?: string): string | null;
+  // Stream one turn into the sink and resolve with the assistant content for
+  // follow-ups. Throws on upstream failure; returns early once `signal` aborts.
+  stream(request: StreamRequest, sink: ReasoningSink, signal: AbortSignal, apiKey?: string): Promise<AssistantContentBlock[]>;
+}
+
+// Rough tokens in text the provider didn't count for us
+const CHARS_PER_TOKEN = 4;
+
+// A sink that sends events stamped with the time since the run started
+export const createSink = (send: (event: StreamEvent) => void, startTime: number) => {
+  const blockTypes = new Map<number, string>(); // block index → type, for block_stop
+  const elapsed = () => Date.now() - startTime;
+  let reported: Partial<TokenUsage> | null = null;
+  let thinkingLength = 0;
+  let fullAnswer = '';
+
+  // Thinking is billed with the answer as output; without a reported count, split
+  // the output tokens by the length of the visible text
+  const finalUsage = (): TokenUsage | undefined => {
+    if (!reported) return undefined;
+    const output = reported.output_tokens ?? 0;
+    const visible = thinkingLength + fullAnswer.length;
+    return {
+      input_tokens: reported.input_tokens ?? 0,
+      output_tokens: output,
+      cache_creation_input_tokens: reported.cache_creation_input_tokens ?? 0,
+      cache_read_input_tokens: reported.cache_read_input_tokens ?? 0,
+      thinking_tokens: reported.thinking_tokens ?? (visible > 0 ? Math.round((output * thinkingLength) / visible) : 0),
+      thinking_estimated: reported.thinking_tokens === undefined,
+    };
+  };
+
+  const sink: ReasoningSink = {
+    thinking(text) {
+      thinkingLength += text.length;
+      send({ type: 'delta', data: { text_chunk: text, t_rel_ms: elapsed() } });
+    },
+    answer(text) {
+      fullAnswer += text;
+      send({ type: 'answer_delta', data: { text_chunk: text, t_rel_ms: elapsed() } });
+    },
+    blockStart(index, blockType) {
+      blockTypes.set(index, blockType);
+      send({ type: 'block_start', data: { index, block_type: blockType, t_rel_ms: elapsed() } });
+    },
+    blockStop(index) {
+      send({ type: 'block_stop', data: { index, block_type: blockTypes.get(index) ?? 'unknown', t_rel_ms: elapsed() } });
+    },
+    signature(index, signature) {
+      send({ type: 'signature', data: { index, signature, t_rel_ms: elapsed() } });
+    },
+    redacted(index) {
+      send({ type: 'redacted_thinking', data: { index, t_rel_ms: elapsed() } });
+    },
+    usage(counts) {
+      reported = { ...reported, ...counts };
+    },
+  };
+
+  const stats = () => {
+    const usage = finalUsage();
+    return {
+      tokens_out: usage?.output_tokens ?? Math.round((thinkingLength + fullAnswer.length) / CHARS_PER_TOKEN),
+      ms: elapsed(),
+      usage,
+      answer: fullAnswer,
+    };
+  };
+
+  return { sink, stats };
+};
+
+// For providers without native blocks: opens a new block whenever the stream switches
+// between thinking and text, closing the one before it
+export const blockTracker = (sink: ReasoningSink) => {
+  let index = -1;
+  let current: string | null = null;
+
+  return {
+    enter(blockType: 'thinking' | 'text') {
+      if (current === blockType) return;
+      if (current !== null) sink.blockStop(index);
+      index++;
+      current = blockType;
+      sink.blockStart(index, blockType);
+    },
+    close() {
+      if (current !== null) sink.blockStop(index);
+      current = null;
+    },
+  };
+};
+
+// Earlier turns as plain chat messages, for providers that can't take thinking back.
+// Assistant turns with no text (thinking only) are left out rather than sent empty.
+export const plainHistory = ({ messages }: StreamRequest): { role: 'user' | 'assistant'; content: string }[] =>
+  messages.flatMap((message): { role: 'user' | 'assistant'; content: string }[] => {
+    if (message.role === 'user') return [{ role: 'user', content: message.content }];
+    const text = message.content.map((block) => block.type === 'text' ? block.text : '').join('');
+    return text ? [{ role: 'assistant', content: text }] : [];
+  });
@@ -0,0 +1,63 @@
+import { GenerationSettings } from './models';
+import { PresetMode } from './patternEngine';
+import { StreamEvent } from './streamEvents';
+import { API_KEY_HEADER, readApiError } from './streamRequest';
+import { ThoughtTrace, TraceRecorder } from './trace';
+
+// Run a single prompt through /api/stream without showing it as it streams (client
+// side): every event is recorded and the finished trace returned, for views that
+// only play runs back
+
+export interface RecordRunOptions {
+  temperature: number;
+  settings: GenerationSettings;
+  preset?: PresetMode;
+  fixture?: boolean; // play a recorded run instead of calling the API
+  apiKey?: string;
+  signal?: AbortSignal;
+}
+
+export const recordRun = async (prompt: string, options: RecordRunOptions): Promise<ThoughtTrace> => {
+  const apiKey = options.apiKey?.trim();
+  const response = await fetch('/api/stream', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey && { [API_KEY_HEADER]: apiKey }),
+    },
+    body: JSON.stringify({
+      prompt,
+      temperature: options.temperature,
+      ...options.settings,
+      ...(options.preset && { preset: options.preset }),
+      ...(options.fixture && { fixture: true }),
+    }),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+  if (!response.body) {
+    throw new Error('No response body');
+  }
+
+  const recorder = new TraceRecorder(prompt);
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines
+      .filter((line) => line.startsWith('data: '))
+      .forEach((line) => recorder.record(JSON.parse(line.slice(6)) as StreamEvent));
+  }
+
+  return recorder.toTrace();
+};
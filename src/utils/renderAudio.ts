@@ -0,0 +1,130 @@
+import { AXES, AnyPatternId, CognitiveAxis, PatternDefinition } from './patternEngine';
+import { createSoundGraph, playAnswerNote, playNote } from './soundGraph';
+import { AnswerNote, AxisGains, LAYERS, LayerName, NoteEvent, RoutingMatrix, scoreTrace } from './thoughtScore';
+import { ThoughtTrace, traceBaseName } from './trace';
+import { encodeWavBytes } from './wav';
+import { createZip } from './zip';
+
+const DEFAULT_SAMPLE_RATE = 44100;
+
+export interface RenderOptions {
+  sampleRate?: number;
+  gains?: AxisGains; // mixer gains per axis, unity by default
+  routing?: RoutingMatrix; // pattern-to-layer routing, the default table if omitted
+  patterns?: PatternDefinition<AnyPatternId>[]; // custom patterns included; built-ins only if omitted
+}
+
+// Render notes through a fresh copy of the live synthesis graph, faster than real time.
+// Every render starts at t=0 and lasts `duration`, so renders of one score line up.
+const renderNotes = async (
+  notes: NoteEvent[], answer: AnswerNote[], duration: number, sampleRate: number,
+): Promise<AudioBuffer> => {
+  const Tone = await import('tone');
+
+  const rendered = await Tone.Offline(async () => {
+    const graph = await createSoundGraph(Tone);
+    notes.forEach((note) => playNote(graph, note, note.time));
+    answer.forEach((note) => playAnswerNote(graph, note, note.time));
+  }, duration, 2, sampleRate);
+
+  const buffer = rendered.get();
+  if (!buffer) {
+    throw new Error('Offline rendering produced no audio');
+  }
+  return buffer;
+};
+
+// Render a recorded run's full mix
+export const renderTrace = async (trace: ThoughtTrace, options: RenderOptions = {}): Promise<AudioBuffer> => {
+  const { notes, answer, duration } = scoreTrace(trace, options.gains, options.routing, options.patterns);
+  return renderNotes(notes, answer, duration, options.sampleRate ?? DEFAULT_SAMPLE_RATE);
+};
+
+// === Stems ===
+
+export interface StemOptions extends RenderOptions {
+  includeAxes?: boolean; // also render one stem per cognitive axis
+  onProgress?: (done: number, total: number) => void;
+}
+
+interface StemSpec {
+  kind: 'layer' | 'axis' | 'answer';
+  name: LayerName | CognitiveAxis | 'answer';
+  file: string;
+  filter: (note: NoteEvent) => boolean;
+  answer?: boolean; // carries the answer voice
+}
+
+export interface StemManifest {
+  format: 'process-thought-stems';
+  version: 1;
+  run: {
+    run_id: string;
+    prompt: string;
+    model: string;
+    temperature: number;
+    recorded_at: string;
+  };
+  sample_rate: number;
+  channels: 2;
+  duration_seconds: number;
+  stems: { file: string; kind: 'layer' | 'axis' | 'answer'; name: string; notes: number }[];
+}
+
+// Render each layer (and optionally each axis) in isolation through the full effects
+// chain, and bundle the WAVs with a manifest.json into a zip
+export const renderStems = async (trace: ThoughtTrace, options: StemOptions = {}): Promise<Blob> => {
+  const sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+  const { notes, answer, duration } = scoreTrace(trace, options.gains, options.routing, options.patterns);
+
+  const specs: StemSpec[] = LAYERS.map((layer) => ({
+    kind: 'layer' as const,
+    name: layer,
+    file: `layers/${layer}.wav`,
+    filter: (note: NoteEvent) => note.layer === layer,
+  }));
+  if (options.includeAxes) {
+    // Notes outside the mixer axes (plain mid notes, the flourish) only appear in layer stems
+    AXES.forEach((axis) => specs.push({
+      kind: 'axis',
+      name: axis,
+      file: `axes/${axis}.wav`,
+      filter: (note: NoteEvent) => note.axis === axis,
+    }));
+  }
+  if (answer.length > 0) {
+    specs.push({ kind: 'answer', name: 'answer', file: 'answer.wav', filter: () => false, answer: true });
+  }
+
+  const entries: { name: string; data: Uint8Array<ArrayBuffer> }[] = [];
+  const manifest: StemManifest = {
+    format: 'process-thought-stems',
+    version: 1,
+    run: {
+      run_id: trace.start.run_id,
+      prompt: trace.prompt,
+      model: trace.start.model,
+      temperature: trace.start.temperature,
+      recorded_at: trace.recorded_at,
+    },
+    sample_rate: sampleRate,
+    channels: 2,
+    duration_seconds: duration,
+    stems: [],
+  };
+
+  for (let i = 0; i < specs.length; i++) {
+    const spec = specs[i];
+    const stemNotes = notes.filter(spec.filter);
+    const stemAnswer = spec.answer ? answer : [];
+    const buffer = await renderNotes(stemNotes, stemAnswer, duration, sampleRate);
+    entries.push({ name: spec.file, data: encodeWavBytes(buffer) });
+    manifest.stems.push({
+      file: spec.file, kind: spec.kind, name: spec.name, notes: stemNotes.length + stemAnswer.length,
+    });
+    options.onProgress?.(i + 1, specs.length);
+  }
+
+  entries.unshift({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries.map((entry) => ({ ...entry, name: `${traceBaseName(trace)}/${entry.name}` })));
+};
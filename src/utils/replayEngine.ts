@@ -0,0 +1,224 @@
+import { ActiveAxes, AnyPatternId, PatternMatch, getActiveAxes } from './patternEngine';
+import { DeltaEventData } from './streamEvents';
+import { TextChunk } from './textChunks';
+import { ThoughtTrace } from './trace';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+const MIN_SPEED = REPLAY_SPEEDS[0];
+const MAX_SPEED = REPLAY_SPEEDS[REPLAY_SPEEDS.length - 1];
+
+const PROGRESS_INTERVAL_MS = 100;
+
+export type ReplayState = 'idle' | 'playing' | 'paused' | 'ended';
+
+export interface ReplayCallbacks {
+  onChunk: (index: number) => void; // chunk `index` is due now
+  onSeek: (count: number) => void; // position jumped: the first `count` chunks are in the past
+  onEnd: () => void;
+  onStateChange?: (state: ReplayState) => void;
+  onProgress?: (positionMs: number) => void;
+}
+
+// Plays recorded deltas back on their original t_rel_ms timeline, scaled by speed
+export class ReplayEngine {
+  private deltas: DeltaEventData[];
+  private durationMs: number;
+  private callbacks: ReplayCallbacks;
+
+  private state: ReplayState = 'idle';
+  private speed: number = 1;
+  private nextIndex: number = 0;
+  private positionMs: number = 0; // position when last paused/rebased
+  private rebasedAt: number = 0; // wall clock of the last rebase while playing
+
+  private chunkTimer: ReturnType<typeof setTimeout> | undefined;
+  private progressTimer: ReturnType<typeof setInterval> | undefined;
+
+  constructor(deltas: DeltaEventData[], durationMs: number, callbacks: ReplayCallbacks) {
+    this.deltas = deltas;
+    this.callbacks = callbacks;
+    const lastDelta = deltas[deltas.length - 1];
+    this.durationMs = Math.max(durationMs, lastDelta ? lastDelta.t_rel_ms : 0);
+  }
+
+  play(): void {
+    if (this.state === 'playing') return;
+    if (this.state === 'ended') {
+      this.seek(0);
+    }
+
+    this.rebasedAt = performance.now();
+    this.setState('playing');
+    this.scheduleNext();
+    this.progressTimer = setInterval(() => {
+      this.callbacks.onProgress?.(this.getPosition());
+    }, PROGRESS_INTERVAL_MS);
+  }
+
+  pause(): void {
+    if (this.state !== 'playing') return;
+    this.positionMs = this.getPosition();
+    this.clearTimers();
+    this.setState('paused');
+  }
+
+  stop(): void {
+    this.clearTimers();
+    this.positionMs = 0;
+    this.nextIndex = 0;
+    this.callbacks.onProgress?.(0);
+    this.setState('idle');
+  }
+
+  seek(positionMs: number): void {
+    this.positionMs = Math.min(Math.max(positionMs, 0), this.durationMs);
+    this.rebasedAt = performance.now();
+
+    // Every chunk at or before the new position counts as played
+    let count = 0;
+    while (count < this.deltas.length && this.deltas[count].t_rel_ms <= this.positionMs) {
+      count++;
+    }
+    this.nextIndex = count;
+    this.callbacks.onSeek(count);
+    this.callbacks.onProgress?.(this.positionMs);
+
+    if (this.state === 'playing') {
+      this.scheduleNext();
+    } else if (this.state === 'ended') {
+      this.setState('paused');
+    }
+  }
+
+  setSpeed(speed: number): void {
+    const clamped = Math.min(Math.max(speed, MIN_SPEED), MAX_SPEED);
+    if (this.state === 'playing') {
+      this.positionMs = this.getPosition();
+      this.rebasedAt = performance.now();
+      this.speed = clamped;
+      this.scheduleNext();
+    } else {
+      this.speed = clamped;
+    }
+  }
+
+  getPosition(): number {
+    if (this.state !== 'playing') return this.positionMs;
+    const elapsed = (performance.now() - this.rebasedAt) * this.speed;
+    return Math.min(this.positionMs + elapsed, this.durationMs);
+  }
+
+  getDuration(): number {
+    return this.durationMs;
+  }
+
+  getState(): ReplayState {
+    return this.state;
+  }
+
+  dispose(): void {
+    this.clearTimers();
+  }
+
+  private scheduleNext(): void {
+    if (this.chunkTimer) clearTimeout(this.chunkTimer);
+
+    const position = this.getPosition();
+    const next = this.deltas[this.nextIndex];
+    const targetMs = next ? next.t_rel_ms : this.durationMs;
+    const wait = Math.max(0, (targetMs - position) / this.speed);
+
+    this.chunkTimer = setTimeout(() => {
+      if (!next) {
+        this.finish();
+        return;
+      }
+      this.callbacks.onChunk(this.nextIndex);
+      this.nextIndex++;
+      this.scheduleNext();
+    }, wait);
+  }
+
+  private finish(): void {
+    this.clearTimers();
+    this.positionMs = this.durationMs;
+    this.callbacks.onProgress?.(this.durationMs);
+    this.setState('ended');
+    this.callbacks.onEnd();
+  }
+
+  private clearTimers(): void {
+    if (this.chunkTimer) clearTimeout(this.chunkTimer);
+    if (this.progressTimer) clearInterval(this.progressTimer);
+    this.chunkTimer = undefined;
+    this.progressTimer = undefined;
+  }
+
+  private setState(state: ReplayState): void {
+    this.state = state;
+    this.callbacks.onStateChange?.(state);
+  }
+}
+
+// What a replay plays into; ThoughtAudio's handle is one
+export interface ReplayVoice {
+  addDelta: (text: string, matches?: PatternMatch<AnyPatternId>[]) => void;
+  addAnswerDelta: (text: string, index?: number) => void;
+  addHiddenThought: () => void;
+  startFlourish: () => void;
+}
+
+export interface TraceReplayCallbacks {
+  onShown: (count: number) => void; // the first `count` chunks are on screen
+  onSeek: (axes: ActiveAxes) => void; // the legend as it was at the new position
+  onStateChange?: (state: ReplayState) => void;
+  onProgress?: (positionMs: number) => void;
+}
+
+// Replay a recorded run through a voice, hidden thoughts, answer voice and closing
+// flourish included. `chunks` are the trace's deltas as rebuilt by chunksFromTrace.
+export const traceReplay = (
+  trace: ThoughtTrace,
+  chunks: TextChunk[],
+  voice: () => ReplayVoice | null,
+  callbacks: TraceReplayCallbacks
+): ReplayEngine => {
+  const textLength = trace.deltas.reduce((length, d) => length + d.text_chunk.length, 0);
+  const hiddenAt = (offset: number) => trace.redacted.filter((r) => r.offset === offset);
+
+  // Thinking and answer deltas on one timeline; the stable sort keeps arrival order on ties
+  const timeline = [
+    ...trace.deltas.map((delta, index) => ({ ...delta, answer: false, index })),
+    ...trace.answer_deltas.map((delta, index) => ({ ...delta, answer: true, index })),
+  ].sort((a, b) => a.t_rel_ms - b.t_rel_ms);
+  const thinkingBefore = (position: number) => timeline.slice(0, position).filter((entry) => !entry.answer).length;
+
+  return new ReplayEngine(timeline, trace.end?.ms ?? 0, {
+    onChunk: (position) => {
+      const { answer, index, text_chunk } = timeline[position];
+      if (answer) {
+        voice()?.addAnswerDelta(text_chunk, index);
+        return;
+      }
+      callbacks.onShown(index + 1);
+      // Hidden thoughts that came before this chunk's text
+      if (index === 0 || chunks[index - 1].start !== chunks[index].start) {
+        hiddenAt(chunks[index].start).forEach(() => voice()?.addHiddenThought());
+      }
+      voice()?.addDelta(chunks[index].text, chunks[index].matches);
+    },
+    onSeek: (position) => {
+      const count = thinkingBefore(position);
+      callbacks.onShown(count);
+      callbacks.onSeek(getActiveAxes(chunks[count - 1]?.matches ?? []));
+    },
+    onEnd: () => {
+      hiddenAt(textLength).forEach(() => voice()?.addHiddenThought());
+      if (!trace.cancelled) {
+        voice()?.startFlourish();
+      }
+    },
+    onStateChange: callbacks.onStateChange,
+    onProgress: callbacks.onProgress,
+  });
+};
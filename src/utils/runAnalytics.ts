@@ -0,0 +1,133 @@
+import { ThinkingAnalysis, analyzeThinkingText } from './claudeStreamMapper';
+import {
+  AXES, ActiveAxes, AnyPatternId, CognitiveAxis, PATTERNS, PatternDefinition, firedPatterns, getActiveAxes,
+} from './patternEngine';
+import { traceTimeline } from './thoughtScore';
+import { ThoughtTrace } from './trace';
+
+// Figures for the analytics panel, all worked out from a recorded run the way the
+// live page saw it: chunk by chunk through the streaming detector
+
+export type AnalysisMetric = keyof ThinkingAnalysis;
+
+export const ANALYSIS_METRICS: AnalysisMetric[] = ['complexity', 'conceptDensity', 'emotionalIntensity', 'logicalFlow', 'uncertainty'];
+
+// One chunk of the run: when it arrived and what it set off
+export interface AnalyticsSample {
+  time: number; // seconds from the start of the run
+  chars: number;
+  patterns: Record<AnyPatternId, number>; // matches completed by this chunk
+  axes: ActiveAxes; // what onActiveAxesChange reported for it
+  analysis: ThinkingAnalysis | null; // null for the closing chunk, which has no text
+}
+
+// A stretch of time during which an axis stayed lit
+export interface AxisSpan {
+  axis: CognitiveAxis;
+  start: number;
+  end: number;
+}
+
+export interface RunAnalytics {
+  samples: AnalyticsSample[];
+  duration: number; // seconds
+  patternIds: AnyPatternId[]; // the patterns looked for, built-ins first
+  patternCounts: Record<AnyPatternId, number>;
+  axisCounts: Record<CognitiveAxis, number>; // matches of each axis's patterns
+  axisSpans: AxisSpan[];
+  cooccurrence: Record<AnyPatternId, Record<AnyPatternId, number>>; // chunks in which both fired; the diagonal is chunks in which one did
+  revisionToResolution: number | null; // null when nothing resolved
+}
+
+const zeroes = <K extends string>(keys: K[]): Record<K, number> =>
+  Object.fromEntries(keys.map((key) => [key, 0])) as Record<K, number>;
+
+// An axis stays lit from the chunk that lit it until the next chunk arrives
+const axisSpans = (samples: AnalyticsSample[], duration: number): AxisSpan[] =>
+  AXES.flatMap((axis) => {
+    const spans: AxisSpan[] = [];
+    samples.forEach((sample, i) => {
+      if (!sample.axes[axis]) return;
+      const end = samples[i + 1]?.time ?? duration;
+      const last = spans[spans.length - 1];
+      if (last && last.end === sample.time) {
+        last.end = end;
+      } else {
+        spans.push({ axis, start: sample.time, end });
+      }
+    });
+    return spans;
+  });
+
+export const analyzeRun = (trace: ThoughtTrace, patterns: PatternDefinition<AnyPatternId>[] = PATTERNS): RunAnalytics => {
+  const { chunks, endTime } = traceTimeline(trace, patterns);
+  const patternIds = patterns.map(({ id }) => id);
+  const patternCounts = zeroes(patternIds);
+  const axisCounts = zeroes(AXES);
+  const cooccurrence = Object.fromEntries(patternIds.map((id) => [id, zeroes(patternIds)])) as RunAnalytics['cooccurrence'];
+
+  const samples = chunks.map(({ time, text, matches }): AnalyticsSample => {
+    const counts = zeroes(patternIds);
+    matches.forEach(({ patternId, axis }) => {
+      counts[patternId]++;
+      patternCounts[patternId]++;
+      if (axis) axisCounts[axis]++;
+    });
+
+    const fired = [...firedPatterns(matches)];
+    fired.forEach((a) => fired.forEach((b) => cooccurrence[a][b]++));
+
+    return {
+      time,
+      chars: text.length,
+      patterns: counts,
+      axes: getActiveAxes(matches),
+      analysis: text ? analyzeThinkingText(text, matches) : null,
+    };
+  });
+
+  return {
+    samples,
+    duration: endTime,
+    patternIds,
+    patternCounts,
+    axisCounts,
+    axisSpans: axisSpans(samples, endTime),
+    cooccurrence,
+    revisionToResolution: patternCounts.resolution > 0 ? patternCounts.revision / patternCounts.resolution : null,
+  };
+};
+
+// Analysis averaged over equal slices of the run, for plotting: single chunks are
+// only a few words, too few to read much from
+export const analysisOverTime = (
+  { samples, duration }: RunAnalytics,
+  slices: number
+): { time: number; analysis: ThinkingAnalysis | null }[] =>
+  Array.from({ length: slices }, (_, i) => {
+    const start = (duration * i) / slices;
+    const end = (duration * (i + 1)) / slices;
+    const inSlice = samples.filter((sample) =>
+      sample.analysis && sample.time >= start && (sample.time < end || (i === slices - 1 && sample.time <= end))
+    );
+    if (inSlice.length === 0) return { time: (start + end) / 2, analysis: null };
+    const analysis = zeroes(ANALYSIS_METRICS);
+    ANALYSIS_METRICS.forEach((metric) => {
+      analysis[metric] = inSlice.reduce((sum, sample) => sum + (sample.analysis?.[metric] ?? 0), 0) / inSlice.length;
+    });
+    return { time: (start + end) / 2, analysis };
+  });
+
+// The samples as CSV, one row per chunk: its time, size, pattern matches, lit axes
+// and thinking analysis
+export const analyticsCsv = ({ samples, patternIds }: RunAnalytics): string => {
+  const header = ['time_s', 'chars', ...patternIds.map((id) => `pattern_${id}`), ...AXES.map((axis) => `${axis}_active`), ...ANALYSIS_METRICS];
+  const rows = samples.map((sample) => [
+    sample.time.toFixed(3),
+    sample.chars,
+    ...patternIds.map((id) => sample.patterns[id]),
+    ...AXES.map((axis) => (sample.axes[axis] ? 1 : 0)),
+    ...ANALYSIS_METRICS.map((metric) => (sample.analysis ? sample.analysis[metric].toFixed(4) : '')),
+  ]);
+  return [header, ...rows].map((row) => row.join(',')).join('\n') + '\n';
+};
@@ -0,0 +1,218 @@
+import { appendFile, mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { PATTERNS, PatternId, PresetMode } from './patternEngine';
+import { PROVIDER_IDS, ProviderId } from './models';
+import { RequestValidationError } from './streamRequest';
+import { patternCounts } from './thoughtScore';
+import { ThoughtTrace, hasContent, parseTrace } from './trace';
+
+// File-based archive of every run /api/stream served (server only), so past runs can be
+// listed and replayed. Each run is a JSON file named by its run id, next to index.jsonl,
+// which holds one summary per line for listing without opening every run. Anyone who can
+// reach the server can list the archive, prompts included, so it's off unless asked for.
+//
+//   RUN_ARCHIVE=on   keep runs (unset: runs aren't kept)
+//   RUN_ARCHIVE_DIR  where runs are kept (default: .runs in the working directory)
+
+export const RUN_ARCHIVE_DIR = process.env.RUN_ARCHIVE_DIR ?? path.join(process.cwd(), '.runs');
+const INDEX_FILE = 'index.jsonl';
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const RUN_ID = /^run_[\w-]+$/; // also keeps ids from reaching outside the archive
+
+export type RunStatus = 'complete' | 'error' | 'cancelled';
+
+export const RUN_STATUSES: RunStatus[] = ['complete', 'error', 'cancelled'];
+
+export interface RunSummary {
+  run_id: string;
+  recorded_at: string;
+  prompt: string;
+  provider: ProviderId | null; // null for runs without one recorded
+  model: string;
+  temperature: number;
+  preset: PresetMode | null;
+  turn: number; // 1 for a first prompt, 2 for its first follow-up...
+  status: RunStatus;
+  duration_ms: number | null;
+  tokens_out: number | null;
+  cost_usd: number | null;
+  dominant_pattern: PatternId | null; // the pattern that fired most often
+}
+
+export interface ArchivedRun {
+  summary: RunSummary;
+  trace: ThoughtTrace;
+}
+
+export interface RunQuery {
+  model?: string;
+  provider?: ProviderId;
+  pattern?: PatternId;
+  status?: RunStatus;
+  from?: string; // ISO date or time, inclusive
+  to?: string; // ISO date or time; a bare date includes that whole day
+  page: number; // 1-based
+  page_size: number;
+}
+
+export interface RunPage {
+  runs: RunSummary[]; // newest first
+  total: number; // runs matching the filters
+  page: number;
+  page_size: number;
+}
+
+export const archiveEnabled = (): boolean => process.env.RUN_ARCHIVE === 'on';
+
+export const isRunId = (id: string): boolean => RUN_ID.test(id);
+
+// Ties go to the pattern listed first in PATTERNS. Only built-in patterns count: custom
+// ones live in each visitor's browser, and the server doesn't run visitors' regexes.
+export const dominantPattern = (trace: ThoughtTrace): PatternId | null => {
+  const counts = patternCounts(trace);
+  return PATTERNS.reduce<PatternId | null>(
+    (best, { id }) => ((counts.get(id) ?? 0) > (best ? counts.get(best) ?? 0 : 0) ? id : best),
+    null
+  );
+};
+
+export const summarizeRun = (trace: ThoughtTrace, preset: PresetMode | null, turn: number): RunSummary => ({
+  run_id: trace.start.run_id,
+  recorded_at: trace.recorded_at,
+  prompt: trace.prompt,
+  provider: trace.start.provider ?? null,
+  model: trace.start.model,
+  temperature: trace.start.temperature,
+  preset,
+  turn,
+  status: trace.cancelled ? 'cancelled' : trace.error !== null ? 'error' : 'complete',
+  duration_ms: trace.end?.ms ?? null,
+  tokens_out: trace.end?.tokens_out ?? null,
+  cost_usd: trace.end?.cost_usd ?? null,
+  dominant_pattern: dominantPattern(trace),
+});
+
+// Keep a run, unless nothing arrived before it ended. Failed and cancelled runs are kept
+// too, marked by their status: what a model thought before an upstream error or a stop
+// is what History's status filter is there to find.
+export const archiveRun = async (trace: ThoughtTrace, preset: PresetMode | null, turn: number): Promise<void> => {
+  if (!isRunId(trace.start.run_id) || !hasContent(trace)) return;
+
+  const run: ArchivedRun = { summary: summarizeRun(trace, preset, turn), trace };
+  await mkdir(RUN_ARCHIVE_DIR, { recursive: true });
+  await writeFile(path.join(RUN_ARCHIVE_DIR, `${trace.start.run_id}.json`), JSON.stringify(run, null, 2), { flag: 'wx' });
+  await appendFile(path.join(RUN_ARCHIVE_DIR, INDEX_FILE), `${JSON.stringify(run.summary)}\n`);
+};
+
+const readIndex = async (): Promise<RunSummary[]> => {
+  const text = await readFile(path.join(RUN_ARCHIVE_DIR, INDEX_FILE), 'utf8').catch(() => '');
+  return text.split('\n').flatMap((line): RunSummary[] => {
+    if (!line.trim()) return [];
+    try {
+      return [JSON.parse(line) as RunSummary];
+    } catch {
+      return []; // a line cut short by a crash
+    }
+  });
+};
+
+const checkDate = (value: string, field: string, endOfDay: boolean): string => {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new RequestValidationError('invalid_field', 'Must be an ISO date or time', field);
+  }
+  const bareDate = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  return new Date(bareDate && endOfDay ? time + 24 * 60 * 60 * 1000 - 1 : time).toISOString();
+};
+
+const checkPositiveInt = (value: string | null, field: string, fallback: number): number => {
+  if (value === null) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new RequestValidationError('invalid_field', 'Must be a whole number of at least 1', field);
+  }
+  return number;
+};
+
+// Query string of GET /api/runs
+export const parseRunQuery = (params: URLSearchParams): RunQuery => {
+  const query: RunQuery = {
+    page: checkPositiveInt(params.get('page'), 'page', 1),
+    page_size: Math.min(MAX_PAGE_SIZE, checkPositiveInt(params.get('page_size'), 'page_size', DEFAULT_PAGE_SIZE)),
+  };
+
+  const model = params.get('model');
+  if (model) query.model = model;
+
+  const provider = params.get('provider');
+  if (provider) {
+    if (!PROVIDER_IDS.includes(provider as ProviderId)) {
+      throw new RequestValidationError('invalid_field', `Provider must be one of ${PROVIDER_IDS.join(', ')}`, 'provider');
+    }
+    query.provider = provider as ProviderId;
+  }
+
+  const pattern = params.get('pattern');
+  if (pattern) {
+    if (!PATTERNS.some(({ id }) => id === pattern)) {
+      throw new RequestValidationError('invalid_field', 'Unknown pattern', 'pattern');
+    }
+    query.pattern = pattern as PatternId;
+  }
+
+  const status = params.get('status');
+  if (status) {
+    if (!RUN_STATUSES.includes(status as RunStatus)) {
+      throw new RequestValidationError('invalid_field', `Status must be one of ${RUN_STATUSES.join(', ')}`, 'status');
+    }
+    query.status = status as RunStatus;
+  }
+
+  const from = params.get('from');
+  if (from) query.from = checkDate(from, 'from', false);
+  const to = params.get('to');
+  if (to) query.to = checkDate(to, 'to', true);
+
+  return query;
+};
+
+export const listRuns = async (query: RunQuery): Promise<RunPage> => {
+  const matching = (await readIndex())
+    .filter((run) =>
+      (!query.model || run.model === query.model)
+      && (!query.provider || run.provider === query.provider)
+      && (!query.pattern || run.dominant_pattern === query.pattern)
+      && (!query.status || run.status === query.status)
+      && (!query.from || run.recorded_at >= query.from)
+      && (!query.to || run.recorded_at <= query.to)
+    )
+    .sort((a, b) => b.recorded_at.localeCompare(a.recorded_at));
+
+  const start = (query.page - 1) * query.page_size;
+  return {
+    runs: matching.slice(start, start + query.page_size),
+    total: matching.length,
+    page: query.page,
+    page_size: query.page_size,
+  };
+};
+
+// The archived run, or null if there's none with that id
+export const getRun = async (id: string): Promise<ArchivedRun | null> => {
+  if (!isRunId(id)) return null;
+  let text: string;
+  try {
+    text = await readFile(path.join(RUN_ARCHIVE_DIR, `${id}.json`), 'utf8');
+  } catch {
+    return null;
+  }
+  // A corrupt or hand-edited file is as good as missing
+  try {
+    const run = JSON.parse(text) as { summary: RunSummary; trace: unknown };
+    return { summary: run.summary, trace: parseTrace(JSON.stringify(run.trace)) };
+  } catch (error) {
+    console.error(`Could not read archived run ${id}:`, error);
+    return null;
+  }
+};
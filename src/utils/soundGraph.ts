@@ -0,0 +1,178 @@
+import { AnswerNote, LayerName, NoteEvent, gainToDb } from './thoughtScore';
+
+// Tone.js is loaded dynamically on the client
+type ToneType = typeof import('tone');
+
+// The five-layer synthesis graph shared by live playback and offline rendering
+export interface SoundGraph {
+  bass: InstanceType<ToneType['Synth']>;
+  mid: InstanceType<ToneType['PolySynth']>;
+  high: InstanceType<ToneType['Synth']>;
+  pad: InstanceType<ToneType['PolySynth']>;
+  texture: InstanceType<ToneType['Noise']>;
+  answer: InstanceType<ToneType['PolySynth']>;
+  filter: InstanceType<ToneType['Filter']>;
+  reverb: InstanceType<ToneType['Reverb']>;
+  delay: InstanceType<ToneType['FeedbackDelay']>;
+  chorus: InstanceType<ToneType['Chorus']>;
+  panner: InstanceType<ToneType['Panner']>;
+}
+
+// Build the graph in Tone's current context (the live one, or an offline one
+// inside Tone.Offline) and connect it to that context's destination. `pan` places
+// the whole mix from -1 (left) to 1 (right).
+export const createSoundGraph = async (Tone: ToneType, pan = 0): Promise<SoundGraph> => {
+  // BASS LAYER: Sub frequencies (40-150Hz) for depth and foundation
+  const bass = new Tone.Synth({
+    oscillator: { type: 'triangle' },
+    envelope: {
+      attack: 0.3,
+      decay: 0.5,
+      sustain: 0.7,
+      release: 1.5,
+    },
+    volume: -15,
+  });
+
+  // MID LAYER: Main melodic content (150-2000Hz)
+  const mid = new Tone.PolySynth(Tone.Synth, {
+    oscillator: { type: 'sine' },
+    envelope: {
+      attack: 0.1,
+      decay: 0.3,
+      sustain: 0.4,
+      release: 1.0,
+    },
+    volume: -10,
+  });
+
+  // HIGH LAYER: Shimmer and sparkle (2000-8000Hz)
+  const high = new Tone.Synth({
+    oscillator: { type: 'sine' },
+    envelope: {
+      attack: 0.05,
+      decay: 0.2,
+      sustain: 0.3,
+      release: 0.8,
+    },
+    volume: -20,
+  });
+
+  // PAD LAYER: Sustained atmospheric background
+  const pad = new Tone.PolySynth(Tone.Synth, {
+    oscillator: { type: 'triangle' },
+    envelope: {
+      attack: 2.0,
+      decay: 1.0,
+      sustain: 0.6,
+      release: 3.0,
+    },
+    volume: -25,
+  });
+
+  // TEXTURE LAYER: Noise and grain for organic feel
+  const texture = new Tone.Noise('pink');
+  texture.volume.value = -35;
+
+  // ANSWER VOICE: Bell-like FM tone, kept apart from the thinking layers
+  const answer = new Tone.PolySynth(Tone.FMSynth, {
+    harmonicity: 3,
+    modulationIndex: 8,
+    envelope: {
+      attack: 0.01,
+      decay: 0.4,
+      sustain: 0.2,
+      release: 1.2,
+    },
+    volume: -14,
+  });
+
+  // Shared filter for texture
+  const filter = new Tone.Filter({
+    type: 'lowpass',
+    frequency: 800,
+    rolloff: -24,
+  });
+
+  // Effects
+  const reverb = new Tone.Reverb({
+    decay: 4,
+    wet: 0.4,
+  });
+
+  const delay = new Tone.FeedbackDelay({
+    delayTime: 0.25,
+    feedback: 0.3,
+    wet: 0.3,
+  });
+
+  const chorus = new Tone.Chorus({
+    frequency: 1.5,
+    delayTime: 3.5,
+    depth: 0.7,
+    wet: 0.4,
+  });
+
+  // Stereo placement of the finished mix
+  const panner = new Tone.Panner(pan);
+
+  await reverb.generate();
+  chorus.start();
+
+  // Connect audio graph
+  texture.connect(filter);
+  filter.connect(reverb);
+
+  bass.connect(reverb);
+
+  mid.connect(chorus);
+  chorus.connect(delay);
+  delay.connect(reverb);
+
+  high.connect(reverb);
+  pad.connect(reverb);
+  answer.connect(reverb);
+
+  reverb.connect(panner);
+  panner.toDestination();
+
+  return { bass, mid, high, pad, texture, answer, filter, reverb, delay, chorus, panner };
+};
+
+export const disposeSoundGraph = (graph: SoundGraph): void => {
+  graph.bass.dispose();
+  graph.mid.dispose();
+  graph.high.dispose();
+  graph.pad.dispose();
+  graph.texture.dispose();
+  graph.answer.dispose();
+  graph.filter.dispose();
+  graph.reverb.dispose();
+  graph.delay.dispose();
+  graph.chorus.dispose();
+  graph.panner.dispose();
+};
+
+// Schedule one note on its layer at an absolute context time (seconds)
+export const playNote = (graph: SoundGraph, note: NoteEvent, time: number): void => {
+  const layers: Record<Exclude<LayerName, 'texture'>, { triggerAttackRelease: (f: number, d: number, t: number, v: number) => unknown }> = {
+    bass: graph.bass,
+    mid: graph.mid,
+    high: graph.high,
+    pad: graph.pad,
+  };
+
+  if (note.layer === 'texture') {
+    graph.filter.frequency.setValueAtTime(note.frequency, time);
+    graph.texture.volume.setValueAtTime(gainToDb(note.gain), time);
+    graph.texture.start(time).stop(time + note.duration);
+    return;
+  }
+
+  layers[note.layer].triggerAttackRelease(note.frequency, note.duration, time, note.gain);
+};
+
+// Schedule one answer-voice note at an absolute context time (seconds)
+export const playAnswerNote = (graph: SoundGraph, note: AnswerNote, time: number): void => {
+  graph.answer.triggerAttackRelease(note.frequency, note.duration, time, note.gain);
+};
@@ -0,0 +1,68 @@
+import { PRESET_MODES, PresetMode } from './patternEngine';
+import {
+  DEFAULT_ROUTING, GESTURES, Gesture, LAYERS, LayerName, ROUTING_SOURCES, Route, RoutingMatrix, RoutingRow, RoutingSource,
+} from './thoughtScore';
+
+// Each preset mode carries its own routing table (client side), edited in the
+// routing grid and kept in localStorage. Presets without one use the default.
+
+export const ROUTING_STORAGE = 'process-thought:routing';
+
+export const MIN_ROUTE_GAIN_DB = -60;
+export const MAX_ROUTE_GAIN_DB = 0;
+export const MIN_ROUTE_OCTAVE = -3;
+export const MAX_ROUTE_OCTAVE = 3;
+
+export type PresetRouting = Partial<Record<PresetMode, RoutingMatrix>>;
+
+const parseRoute = (raw: unknown): Route | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const { gesture, gain, octave } = raw as Record<string, unknown>;
+  if (!GESTURES.includes(gesture as Gesture)) return null;
+  if (typeof gain !== 'number' || !Number.isFinite(gain) || gain < MIN_ROUTE_GAIN_DB || gain > MAX_ROUTE_GAIN_DB) return null;
+  if (!Number.isInteger(octave) || (octave as number) < MIN_ROUTE_OCTAVE || (octave as number) > MAX_ROUTE_OCTAVE) return null;
+  return { gesture: gesture as Gesture, gain, octave: octave as number };
+};
+
+// A stored table, or null unless it has every source exactly once, plain text last, and only valid cells
+export const parseRouting = (raw: unknown): RoutingMatrix | null => {
+  if (!Array.isArray(raw) || raw.length !== ROUTING_SOURCES.length) return null;
+
+  const seen = new Set<RoutingSource>();
+  const rows: RoutingRow[] = [];
+  for (const item of raw) {
+    if (typeof item !== 'object' || item === null) return null;
+    const { source, routes } = item as Record<string, unknown>;
+    if (!ROUTING_SOURCES.includes(source as RoutingSource) || seen.has(source as RoutingSource)) return null;
+    if (typeof routes !== 'object' || routes === null) return null;
+    seen.add(source as RoutingSource);
+
+    const row: RoutingRow = { source: source as RoutingSource, routes: {} };
+    for (const [layer, cell] of Object.entries(routes)) {
+      const parsed = parseRoute(cell);
+      if (!LAYERS.includes(layer as LayerName) || !parsed) return null;
+      row.routes[layer as LayerName] = parsed;
+    }
+    rows.push(row);
+  }
+  return rows[rows.length - 1].source === 'text' ? rows : null;
+};
+
+export const loadPresetRouting = (): PresetRouting => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(ROUTING_STORAGE) ?? '{}');
+    return PRESET_MODES.reduce<PresetRouting>((saved, preset) => {
+      const routing = parseRouting(raw?.[preset]);
+      return routing ? { ...saved, [preset]: routing } : saved;
+    }, {});
+  } catch {
+    return {};
+  }
+};
+
+export const savePresetRouting = (saved: PresetRouting): void => {
+  localStorage.setItem(ROUTING_STORAGE, JSON.stringify(saved));
+};
+
+export const presetRouting = (saved: PresetRouting, preset: PresetMode): RoutingMatrix =>
+  saved[preset] ?? DEFAULT_ROUTING;
@@ -0,0 +1,94 @@
+import { AssistantContentBlock } from './conversation';
+import { ProviderId } from './models';
+import type { ApiErrorCode } from './streamRequest';
+
+// Server-sent events emitted by /api/stream, shared by the route, the page and trace files
+
+export interface StartEventData {
+  run_id: string;
+  provider?: ProviderId; // backend the thinking came from; absent in older traces
+  model: string;
+  temperature: number;
+  max_tokens?: number; // effective generation settings; absent in older traces
+  budget_tokens?: number;
+}
+
+export interface DeltaEventData {
+  text_chunk: string;
+  t_rel_ms: number; // milliseconds since the start of the run
+}
+
+// Token counts reported by the provider
+export interface TokenUsage {
+  input_tokens: number; // prompt tokens not read from the cache
+  output_tokens: number; // thinking and answer
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  thinking_tokens: number; // the thinking part of output_tokens
+  thinking_estimated: boolean; // thinking_tokens split off by text length, not reported
+}
+
+export interface EndEventData {
+  tokens_out: number; // output tokens; thinking chunks in older traces
+  ms: number;
+  usage?: TokenUsage; // absent when the provider reported none
+  cost_usd?: number | null; // null when the model has no price
+}
+
+// A content block of the assistant message opening or closing. Thinking, redacted
+// thinking and text blocks arrive in order, each with its index in the message.
+export interface BlockEventData {
+  index: number;
+  block_type: string; // 'thinking' | 'redacted_thinking' | 'text', or any newer block type
+  t_rel_ms: number;
+}
+
+// The signature closing a thinking block
+export interface SignatureEventData {
+  index: number;
+  signature: string;
+  t_rel_ms: number;
+}
+
+// Placeholder for thinking the safety systems encrypted: there is no text to show,
+// only that a hidden thought happened here. The encrypted data comes back in `turn`.
+export interface RedactedThinkingEventData {
+  index: number;
+  t_rel_ms: number;
+}
+
+// A chunk of the final answer, streamed as it arrives
+export interface AnswerDeltaEventData {
+  text_chunk: string;
+  t_rel_ms: number;
+}
+
+// The complete answer, sent after the stream ends
+export interface AnswerEventData {
+  answer: string;
+}
+
+// The finished assistant message, to send back when continuing the conversation
+export interface TurnEventData {
+  content: AssistantContentBlock[];
+}
+
+export interface ErrorEventData {
+  error: string;
+  code?: ApiErrorCode;
+}
+
+export type StreamEvent =
+  | { type: 'start'; data: StartEventData }
+  | { type: 'delta'; data: DeltaEventData }
+  | { type: 'end'; data: EndEventData }
+  | { type: 'block_start'; data: BlockEventData }
+  | { type: 'block_stop'; data: BlockEventData }
+  | { type: 'signature'; data: SignatureEventData }
+  | { type: 'redacted_thinking'; data: RedactedThinkingEventData }
+  | { type: 'answer_delta'; data: AnswerDeltaEventData }
+  | { type: 'answer'; data: AnswerEventData }
+  | { type: 'turn'; data: TurnEventData }
+  | { type: 'error'; data: ErrorEventData };
+
+export const formatEvent = (event: StreamEvent): string => `data: ${JSON.stringify(event)}\n\n`;
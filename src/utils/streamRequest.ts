@@ -0,0 +1,258 @@
+import { ConversationMessage, toAssistantContent } from './conversation';
+import { PRESET_MODES, PresetMode } from './patternEngine';
+import { DEFAULT_SETTINGS, GenerationSettings, ModelOption, MODELS, defaultModel, settingsError } from './models';
+
+// Request body accepted by POST /api/stream, and the error responses it returns.
+// Validation failures are 400s naming the offending field; the client branches on `code`.
+
+export const MAX_PROMPT_CHARS = 20000; // per user message
+export const MAX_MESSAGES = 50;
+
+export type ApiErrorCode =
+  | 'invalid_json' // body isn't a JSON object
+  | 'invalid_field' // a field has the wrong type or is out of range
+  | 'prompt_too_long'
+  | 'unsupported_model' // not in this deployment's allowlist
+  | 'invalid_settings' // max_tokens / budget_tokens combination rejected
+  | 'missing_api_key' // server isn't configured, or needs the user's own key
+  | 'rate_limited' // too many requests from this client; retry after `retry_after`
+  | 'quota_exceeded' // this client's daily tokens are spent; retry after `retry_after`
+  | 'not_found' // no archived run with that id
+  | 'upstream_error'; // the model provider failed mid-stream
+
+export interface ApiErrorBody {
+  error: string; // readable message
+  code: ApiErrorCode;
+  field?: string; // request field at fault, for validation errors
+  retry_after?: number; // seconds, for 429s
+}
+
+// Playback options for the offline fixture provider; unset fields fall back to the
+// FIXTURE_* environment variables
+export interface FixtureRequest {
+  name?: string; // fixture file to play, instead of choosing one by prompt
+  speed?: number; // playback rate: 2 plays twice as fast as recorded
+  jitter?: number; // 0–1, random fraction added to or taken from each gap
+  error_at?: number; // 0–1, fail with an upstream_error after this much of the thinking
+  stall_at?: number; // 0–1, pause after this much of the thinking...
+  stall_ms?: number; // ...for this long
+}
+
+export interface StreamRequest extends GenerationSettings {
+  messages: ConversationMessage[];
+  temperature: number;
+  fixture: FixtureRequest | null; // play a recorded trace instead of calling the API
+  preset: PresetMode | null; // the page's highlighting preset, kept with the archived run
+}
+
+export class RequestValidationError extends Error {
+  constructor(public code: ApiErrorCode, message: string, public field?: string) {
+    super(message);
+    this.name = 'RequestValidationError';
+  }
+
+  toBody(): ApiErrorBody {
+    return { error: this.message, code: this.code, ...(this.field && { field: this.field }) };
+  }
+}
+
+// The user's own provider key travels in a header, never in the body, so it stays out
+// of anything that records requests
+export const API_KEY_HEADER = 'x-api-key';
+
+// Where the page keeps the user's key, in their browser only
+export const API_KEY_STORAGE = 'process-thought:api-key';
+
+const MAX_API_KEY_CHARS = 256;
+
+// REQUIRE_USER_KEY=true makes every visitor bring a key; the server's keys go unused
+export const requireUserKey = (): boolean => process.env.REQUIRE_USER_KEY === 'true';
+
+export const readApiKey = (headers: Headers): string | undefined => {
+  const key = headers.get(API_KEY_HEADER)?.trim();
+  if (!key) return undefined;
+  if (key.length > MAX_API_KEY_CHARS || /\s/.test(key)) {
+    throw new RequestValidationError('invalid_field', 'API key is malformed', 'api_key');
+  }
+  return key;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkPrompt = (text: unknown, field: string): string => {
+  if (typeof text !== 'string' || !text.trim()) {
+    throw new RequestValidationError('invalid_field', 'Prompt must be a non-empty string', field);
+  }
+  if (text.length > MAX_PROMPT_CHARS) {
+    throw new RequestValidationError('prompt_too_long', `Prompt is longer than ${MAX_PROMPT_CHARS} characters`, field);
+  }
+  return text;
+};
+
+// Assistant blocks are passed on as the client received them; the API checks signatures
+const checkMessages = (messages: unknown): ConversationMessage[] => {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new RequestValidationError('invalid_field', 'Messages must be a non-empty array', 'messages');
+  }
+  if (messages.length > MAX_MESSAGES) {
+    throw new RequestValidationError('invalid_field', `At most ${MAX_MESSAGES} messages are allowed`, 'messages');
+  }
+
+  return messages.map((message, i): ConversationMessage => {
+    const field = `messages[${i}]`;
+    if (!isRecord(message)) {
+      throw new RequestValidationError('invalid_field', 'Message must be an object', field);
+    }
+    const expectedRole = i % 2 === 0 ? 'user' : 'assistant';
+    if (message.role !== expectedRole) {
+      throw new RequestValidationError('invalid_field', `Expected a ${expectedRole} message`, `${field}.role`);
+    }
+    if (message.role === 'user') {
+      return { role: 'user', content: checkPrompt(message.content, `${field}.content`) };
+    }
+    const content = Array.isArray(message.content) ? message.content : [];
+    const blocks = toAssistantContent(content);
+    if (blocks.length === 0 || blocks.length !== content.length) {
+      throw new RequestValidationError('invalid_field', 'Assistant content must be thinking, redacted thinking or text blocks', `${field}.content`);
+    }
+    return { role: 'assistant', content: blocks };
+  });
+};
+
+const checkNumber = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new RequestValidationError('invalid_field', 'Must be a number', field);
+  }
+  return value;
+};
+
+const checkFraction = (value: unknown, field: string): number => {
+  const fraction = checkNumber(value, field);
+  if (fraction < 0 || fraction > 1) {
+    throw new RequestValidationError('invalid_field', 'Must be between 0 and 1', field);
+  }
+  return fraction;
+};
+
+// `fixture` is true for the defaults, or an object of playback options
+const checkFixture = (fixture: unknown): FixtureRequest | null => {
+  if (fixture === undefined || fixture === false) return null;
+  if (fixture === true) return {};
+  if (!isRecord(fixture)) {
+    throw new RequestValidationError('invalid_field', 'Fixture must be true or an object of options', 'fixture');
+  }
+
+  const options: FixtureRequest = {};
+  if (fixture.name !== undefined) {
+    if (typeof fixture.name !== 'string' || !/^[\w-]+$/.test(fixture.name)) {
+      throw new RequestValidationError('invalid_field', 'Fixture name must be letters, digits, - or _', 'fixture.name');
+    }
+    options.name = fixture.name;
+  }
+  if (fixture.speed !== undefined) {
+    options.speed = checkNumber(fixture.speed, 'fixture.speed');
+    if (options.speed <= 0) {
+      throw new RequestValidationError('invalid_field', 'Speed must be greater than 0', 'fixture.speed');
+    }
+  }
+  if (fixture.jitter !== undefined) options.jitter = checkFraction(fixture.jitter, 'fixture.jitter');
+  if (fixture.error_at !== undefined) options.error_at = checkFraction(fixture.error_at, 'fixture.error_at');
+  if (fixture.stall_at !== undefined) options.stall_at = checkFraction(fixture.stall_at, 'fixture.stall_at');
+  if (fixture.stall_ms !== undefined) {
+    options.stall_ms = checkNumber(fixture.stall_ms, 'fixture.stall_ms');
+    if (options.stall_ms < 0) {
+      throw new RequestValidationError('invalid_field', 'Stall must not be negative', 'fixture.stall_ms');
+    }
+  }
+  return options;
+};
+
+// Validate a parsed JSON body, filling in defaults. Accepts either `messages` or a
+// single `prompt`, which starts a new conversation.
+export const parseStreamRequest = (raw: unknown, models: ModelOption[] = MODELS): StreamRequest => {
+  if (!isRecord(raw)) {
+    throw new RequestValidationError('invalid_json', 'Request body must be a JSON object');
+  }
+
+  const messages = raw.messages !== undefined
+    ? checkMessages(raw.messages)
+    : [{ role: 'user' as const, content: checkPrompt(raw.prompt, 'prompt') }];
+  if (messages[messages.length - 1].role !== 'user') {
+    throw new RequestValidationError('invalid_field', 'The last message must come from the user', 'messages');
+  }
+
+  const temperature = raw.temperature === undefined ? 1.0 : checkNumber(raw.temperature, 'temperature');
+  if (temperature < 0 || temperature > 1) {
+    throw new RequestValidationError('invalid_field', 'Temperature must be between 0 and 1', 'temperature');
+  }
+
+  if (raw.model !== undefined && typeof raw.model !== 'string') {
+    throw new RequestValidationError('invalid_field', 'Model must be a string', 'model');
+  }
+  const settings: GenerationSettings = {
+    model: raw.model ?? defaultModel(models),
+    max_tokens: raw.max_tokens === undefined ? DEFAULT_SETTINGS.max_tokens : checkNumber(raw.max_tokens, 'max_tokens'),
+    budget_tokens: raw.budget_tokens === undefined ? DEFAULT_SETTINGS.budget_tokens : checkNumber(raw.budget_tokens, 'budget_tokens'),
+  };
+
+  const problem = settingsError(settings, models);
+  if (problem) {
+    throw new RequestValidationError(problem.field === 'model' ? 'unsupported_model' : 'invalid_settings', problem.message, problem.field);
+  }
+
+  if (raw.preset !== undefined && !PRESET_MODES.includes(raw.preset as PresetMode)) {
+    throw new RequestValidationError('invalid_field', `Preset must be one of ${PRESET_MODES.join(', ')}`, 'preset');
+  }
+
+  return {
+    messages,
+    temperature,
+    ...settings,
+    fixture: checkFixture(raw.fixture),
+    preset: (raw.preset as PresetMode | undefined) ?? null,
+  };
+};
+
+// Thrown on the client when /api/stream answers with an error response
+export class ApiRequestError extends Error {
+  constructor(
+    public status: number,
+    public code: ApiErrorCode,
+    message: string,
+    public field?: string,
+    public retryAfter?: number // seconds
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+// Codes for requests the user can fix by changing their input
+export const INPUT_ERROR_CODES: ApiErrorCode[] = ['invalid_field', 'prompt_too_long', 'unsupported_model', 'invalid_settings'];
+
+export const readApiError = async (response: Response): Promise<ApiRequestError> => {
+  const body: Partial<ApiErrorBody> = await response.json().catch(() => ({}));
+  const retryAfter = body.retry_after ?? (Number(response.headers.get('Retry-After')) || undefined);
+  return new ApiRequestError(
+    response.status,
+    body.code ?? 'upstream_error',
+    body.error ?? `Request failed with status ${response.status}`,
+    body.field,
+    retryAfter
+  );
+};
+
+// Readable text for an error the server sent mid-stream, by its code
+export const streamErrorMessage = (error: string, code?: ApiErrorCode): string => {
+  switch (code) {
+    case 'upstream_error':
+      return `The model provider failed mid-run: ${error}`;
+    case 'missing_api_key':
+      return `${error}. Add your own API key in Settings, or turn on offline fixtures`;
+    case 'quota_exceeded':
+      return `${error}. Add your own API key in Settings to keep going`;
+    default:
+      return error;
+  }
+};
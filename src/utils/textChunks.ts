@@ -0,0 +1,36 @@
+import { AnyPatternId, PATTERNS, PatternDefinition, PatternMatch, StreamMatch, StreamingPatternDetector } from './patternEngine';
+import { ThoughtTrace } from './trace';
+
+// Thinking text as it arrived, one chunk per delta, for highlighting and replay
+
+export interface TextChunk {
+  text: string;
+  start: number; // offset of this chunk within the full thinking text
+  matches: PatternMatch<AnyPatternId>[]; // matches completed by this chunk, offsets within the full thinking text
+}
+
+// Append a chunk (when given text) and attribute streamed matches to the chunk that completed them
+export const appendChunk = (chunks: TextChunk[], text: string | null, matches: StreamMatch<AnyPatternId>[]): TextChunk[] => {
+  const next = [...chunks];
+  if (text !== null) {
+    const last = next[next.length - 1];
+    next.push({ text, start: last ? last.start + last.text.length : 0, matches: [] });
+  }
+  matches.forEach((match) => {
+    const chunk = next[match.chunkIndex];
+    if (chunk) {
+      next[match.chunkIndex] = { ...chunk, matches: [...chunk.matches, match] };
+    }
+  });
+  return next;
+};
+
+// Rebuild highlighted chunks from a recorded trace, custom patterns included when given
+export const chunksFromTrace = (trace: ThoughtTrace, patterns: PatternDefinition<AnyPatternId>[] = PATTERNS): TextChunk[] => {
+  const detector = new StreamingPatternDetector(patterns);
+  let chunks: TextChunk[] = [];
+  trace.deltas.forEach(({ text_chunk }) => {
+    chunks = appendChunk(chunks, text_chunk, detector.push(text_chunk));
+  });
+  return appendChunk(chunks, null, detector.flush());
+};
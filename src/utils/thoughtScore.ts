@@ -0,0 +1,406 @@
+import {
+  AnyPatternId, CognitiveAxis, PATTERNS, PatternDefinition, PatternId, PatternMatch, StreamMatch, StreamingPatternDetector, isCustomPatternId,
+} from './patternEngine';
+import { ThoughtTrace } from './trace';
+
+// Turns detected patterns into timed note events. The score is plain data, so the
+// same notes can be played live, rendered offline or written to other formats.
+
+export type LayerName = 'bass' | 'mid' | 'high' | 'pad' | 'texture';
+
+export const LAYERS: LayerName[] = ['bass', 'mid', 'high', 'pad', 'texture'];
+
+// What triggered a note: a detected pattern (custom ones included), the end-of-run
+// flourish, a redacted (hidden) thought, or null for plain text
+export type NoteCause = AnyPatternId | 'flourish' | 'hidden' | null;
+
+export interface NoteEvent {
+  layer: LayerName;
+  axis: CognitiveAxis | null; // mixer axis that scaled this note; null = not axis-controlled
+  cause: NoteCause;
+  time: number; // seconds, relative to the chunk (or to the run in a trace score)
+  frequency: number; // Hz; filter cutoff for the texture layer
+  duration: number; // seconds
+  gain: number; // linear gain, axis multiplier applied
+}
+
+export type AxisGains = Record<CognitiveAxis, number>;
+
+export const UNITY_GAINS: AxisGains = { certainty: 1, reasoning: 1, revision: 1, resolution: 1 };
+
+// Note lengths at Tone.js's default 120 BPM
+export const NOTE_SECONDS = {
+  '1n': 2,
+  '2n': 1,
+  '4n': 0.5,
+  '8n': 0.25,
+  '16n': 0.125,
+  '32n': 0.0625,
+};
+
+const TEXTURE_SECONDS = 0.15;
+
+// Musical scales/modes for different cognitive phases
+export const PHASE_SCALES = {
+  questioning: ['C4', 'D4', 'E4', 'F#4', 'G4', 'A4', 'B4'], // Lydian (dreamy, exploratory)
+  backtracking: ['C4', 'Db4', 'Eb4', 'F4', 'Gb4', 'Ab4', 'Bb4'], // Locrian (unstable)
+  reasoning: ['C4', 'D4', 'Eb4', 'F4', 'G4', 'A4', 'Bb4'], // Dorian (balanced)
+  concluding: ['C4', 'D4', 'E4', 'F4', 'G4', 'A4', 'B4'], // Ionian/Major (resolving)
+  thinking: ['C4', 'D4', 'F4', 'G4', 'A4'], // Pentatonic (ambient)
+  idle: ['C4'],
+};
+
+export const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+export const gainToDb = (gain: number): number => 20 * Math.log10(gain);
+
+export const midiToFrequency = (midi: number): number => 440 * Math.pow(2, (midi - 69) / 12);
+
+export const frequencyToMidi = (frequency: number): number => 69 + 12 * Math.log2(frequency / 440);
+
+const NOTE_OFFSETS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+export const noteToMidi = (note: string): number => {
+  const match = /^([A-G])(#|b)?(-?\d)$/.exec(note);
+  if (!match) return 60;
+  const accidental = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  return NOTE_OFFSETS[match[1]] + accidental + (parseInt(match[3], 10) + 1) * 12;
+};
+
+export interface ChunkScore {
+  notes: NoteEvent[];
+  intensity: number;
+  baseFrequency: number;
+}
+
+// === Routing ===
+// Which layers each pattern plays on, and how, as a table: one row per pattern and a
+// cell per layer. Rows are in priority order; on each layer the first row whose
+// pattern fired sounds. Plain text always fires, so its row fills any layer no
+// pattern claimed.
+
+export type Gesture = 'note' | 'chord' | 'arpeggio' | 'swell';
+
+export const GESTURES: Gesture[] = ['note', 'chord', 'arpeggio', 'swell'];
+
+export interface Route {
+  gesture: Gesture;
+  gain: number; // dB at zero intensity; each layer gets louder as intensity rises
+  octave: number; // octaves from the chunk's pitch (the filter cutoff on texture)
+}
+
+export type RoutingSource = PatternId | 'text';
+
+export const ROUTING_SOURCES: RoutingSource[] = [...PATTERNS.map(({ id }) => id), 'text'];
+
+export interface RoutingRow {
+  source: RoutingSource;
+  routes: Partial<Record<LayerName, Route>>;
+}
+
+export type RoutingMatrix = RoutingRow[];
+
+// A cell's usual level, and how many dB full intensity adds
+export const LAYER_GAIN_DB: Record<LayerName, number> = { bass: -18, mid: -12, high: -22, pad: -28, texture: -38 };
+const LAYER_INTENSITY_DB: Record<LayerName, number> = { bass: 5, mid: 8, high: 6, pad: 5, texture: 10 };
+
+// Note length of a single note or chord on each layer
+const LAYER_SECONDS: Record<LayerName, number> = {
+  bass: NOTE_SECONDS['4n'],
+  mid: NOTE_SECONDS['8n'],
+  high: NOTE_SECONDS['16n'],
+  pad: NOTE_SECONDS['2n'],
+  texture: TEXTURE_SECONDS,
+};
+
+// Steps of each gesture: semitones above the root, onset and level drop
+const GESTURE_STEPS: Record<Gesture, { semitones: number; time: number; db: number }[]> = {
+  note: [{ semitones: 0, time: 0, db: 0 }],
+  chord: [0, 4, 7].map((semitones, i) => ({ semitones, time: i * 0.02, db: -3 * i })),
+  arpeggio: [0, 2, 4, 7, 9].map((semitones, i) => ({ semitones, time: i * 0.04, db: -i })),
+  swell: [{ semitones: 0, time: 0, db: 0 }],
+};
+
+const gestureSeconds = (gesture: Gesture, layer: LayerName): number => {
+  if (gesture === 'arpeggio') return NOTE_SECONDS['16n'];
+  if (gesture === 'swell') return layer === 'texture' ? 1.2 : NOTE_SECONDS['1n'];
+  return LAYER_SECONDS[layer];
+};
+
+const route = (layer: LayerName, gesture: Gesture, octave = 0): Partial<Record<LayerName, Route>> =>
+  ({ [layer]: { gesture, gain: LAYER_GAIN_DB[layer], octave } });
+
+export const DEFAULT_ROUTING: RoutingMatrix = [
+  { source: 'uncertainty', routes: { ...route('pad', 'swell'), ...route('texture', 'note') } },
+  { source: 'revision', routes: { ...route('mid', 'arpeggio'), ...route('texture', 'note', 1) } },
+  { source: 'question', routes: route('mid', 'arpeggio') },
+  { source: 'certainty', routes: route('mid', 'chord') },
+  { source: 'emphasis', routes: route('high', 'arpeggio', 1) },
+  { source: 'comparison', routes: route('high', 'note', 1) },
+  { source: 'hedging', routes: route('high', 'note', 1) },
+  { source: 'causation', routes: { ...route('bass', 'note', -2), ...route('pad', 'chord') } },
+  { source: 'enumeration', routes: route('bass', 'note', -2) },
+  { source: 'resolution', routes: { ...route('bass', 'note', -2), ...route('pad', 'chord') } },
+  { source: 'negation', routes: route('texture', 'note', -1) },
+  { source: 'metacognition', routes: {} },
+  { source: 'text', routes: route('mid', 'note') },
+];
+
+const sourceAxis = (source: RoutingSource): CognitiveAxis | null =>
+  source === 'text' ? null : PATTERNS.find(({ id }) => id === source)?.axis ?? null;
+
+// Custom patterns play as the built-in pattern that leads their axis
+const AXIS_VOICES: Record<CognitiveAxis, PatternId> = {
+  certainty: 'certainty',
+  reasoning: 'causation',
+  revision: 'revision',
+  resolution: 'resolution',
+};
+
+// Built-in patterns that sound for a chunk's matches, each with the pattern that made
+// it sound: itself when it fired, else the first custom pattern voiced through it
+const soundingPatterns = (matches: PatternMatch<AnyPatternId>[]): Map<PatternId, AnyPatternId> => {
+  const sounding = new Map<PatternId, AnyPatternId>();
+  matches.forEach(({ patternId, axis }) => {
+    if (!isCustomPatternId(patternId)) {
+      sounding.set(patternId, patternId);
+    } else if (axis && !sounding.has(AXIS_VOICES[axis])) {
+      sounding.set(AXIS_VOICES[axis], patternId);
+    }
+  });
+  return sounding;
+};
+
+// Map a chunk's detected patterns to intensity, pitch and multi-layer notes
+export const scoreChunk = (
+  text: string, matches: PatternMatch<AnyPatternId>[], gains: AxisGains = UNITY_GAINS, routing: RoutingMatrix = DEFAULT_ROUTING
+): ChunkScore => {
+  const fired = soundingPatterns(matches);
+  const has = (id: PatternId) => fired.has(id);
+
+  const hasUncertainty = has('uncertainty');
+  const hasCertainty = has('certainty');
+  const hasRevision = has('revision');
+  const hasQuestion = has('question');
+  const hasEnumeration = has('enumeration');
+  const hasEmphasis = has('emphasis');
+  const hasCausation = has('causation');
+  const hasHedging = has('hedging');
+  const hasResolution = has('resolution');
+
+  // === CALCULATE INTENSITY ===
+  // Priority-based intensity calculation
+  let intensity = 0.5; // Base
+
+  if (hasRevision) {
+    intensity = 0.9;
+  } else if (hasResolution) {
+    intensity = 0.85;
+  } else if (hasCertainty) {
+    intensity = 0.8;
+  } else if (hasUncertainty || has('metacognition') || hasHedging) {
+    intensity = 0.7;
+  } else if (hasEnumeration) {
+    intensity = 0.65;
+  } else if (hasQuestion) {
+    intensity = 0.6;
+  } else if (hasCausation) {
+    intensity = 0.6;
+  }
+
+  // Boost intensity for emphasis
+  if (hasEmphasis) {
+    intensity = Math.min(1.0, intensity + 0.15);
+  }
+
+  // === CALCULATE BASE FREQUENCY ===
+  // Map intensity to pitch (0.0-1.0 → C3-C6)
+  const baseMidi = 48; // C3
+  const midiRange = 36; // 3 octaves
+  let midiNote = baseMidi + (intensity * midiRange);
+
+  // Adjust for complexity (commas, parentheses)
+  const commaCount = (text.match(/,/g) || []).length;
+  const complexity = commaCount + (text.match(/\(/g) || []).length;
+  if (complexity > 0) {
+    midiNote += complexity * 2;
+  }
+
+  const baseFrequency = midiToFrequency(midiNote);
+
+  // === ROUTE TO LAYERS ===
+  // Each layer plays the first routed row that fired; a muted axis still claims its layers
+  const notes: NoteEvent[] = [];
+  const claimed = new Set<LayerName>();
+  routing.forEach(({ source, routes }) => {
+    if (source !== 'text' && !has(source)) return;
+    LAYERS.forEach((layer) => {
+      const cell = routes[layer];
+      if (!cell || claimed.has(layer)) return;
+      claimed.add(layer);
+
+      const axis = sourceAxis(source);
+      const axisGain = axis ? gains[axis] : 1;
+      if (axisGain === 0) return;
+
+      const root = baseFrequency * Math.pow(2, cell.octave);
+      const level = cell.gain + intensity * LAYER_INTENSITY_DB[layer];
+      const duration = gestureSeconds(cell.gesture, layer);
+      // The texture layer is one noise source, so it only takes a gesture's first step
+      const steps = layer === 'texture' ? GESTURE_STEPS[cell.gesture].slice(0, 1) : GESTURE_STEPS[cell.gesture];
+      steps.forEach(({ semitones, time, db }) => {
+        notes.push({
+          layer,
+          axis,
+          cause: source === 'text' ? null : fired.get(source) ?? source,
+          time,
+          frequency: root * Math.pow(2, semitones / 12),
+          duration,
+          gain: dbToGain(level + db) * axisGain,
+        });
+      });
+    });
+  });
+
+  return { notes, intensity, baseFrequency };
+};
+
+// Final resolving chord across the mid, high and bass layers
+export const flourishNotes = (): NoteEvent[] => {
+  const scale = PHASE_SCALES.concluding;
+  const chord = [scale[0], scale[2], scale[4]]; // Major triad
+  const notes: NoteEvent[] = [];
+
+  chord.forEach((name, i) => {
+    const midi = noteToMidi(name);
+    notes.push({ layer: 'mid', axis: null, cause: 'flourish', time: i * 0.1, frequency: midiToFrequency(midi), duration: NOTE_SECONDS['2n'], gain: 0.5 });
+    notes.push({ layer: 'high', axis: null, cause: 'flourish', time: i * 0.1, frequency: midiToFrequency(midi + 12), duration: NOTE_SECONDS['2n'], gain: 0.3 });
+  });
+  notes.push({ layer: 'bass', axis: null, cause: 'flourish', time: 0, frequency: midiToFrequency(noteToMidi(scale[0])), duration: NOTE_SECONDS['1n'], gain: 0.4 });
+
+  return notes;
+};
+
+// === Answer voice ===
+// The final answer plays as its own movement: a bell-like voice an octave above the
+// thinking layers, on a major pentatonic scale so the response sounds settled.
+
+export const ANSWER_SCALE = ['C5', 'D5', 'E5', 'G5', 'A5', 'C6'];
+
+export interface AnswerNote {
+  time: number; // seconds, relative to the chunk
+  frequency: number;
+  duration: number;
+  gain: number;
+}
+
+// One note per answer chunk, walking the scale by word count; sentence ends resolve
+// to the tonic and ring longer
+export const scoreAnswerChunk = (text: string, index: number): AnswerNote[] => {
+  if (!text.trim()) return [];
+
+  const words = text.trim().split(/\s+/).length;
+  const endsSentence = /[.!?]["')\]]?\s*$/.test(text);
+  const degree = endsSentence ? 0 : (index + words) % ANSWER_SCALE.length;
+  const frequency = midiToFrequency(noteToMidi(ANSWER_SCALE[degree]));
+
+  return [{
+    time: 0,
+    frequency,
+    duration: endsSentence ? NOTE_SECONDS['2n'] : NOTE_SECONDS['8n'],
+    gain: endsSentence ? 0.35 : 0.25,
+  }];
+};
+
+// Hidden thought: thinking the model did but we can't read. A muffled noise swell
+// under a low, close cluster, heard where the text is missing.
+export const hiddenThoughtNotes = (): NoteEvent[] => {
+  const root = noteToMidi('C3');
+  return [
+    { layer: 'texture', axis: null, cause: 'hidden', time: 0, frequency: 300, duration: 1.2, gain: dbToGain(-30) },
+    { layer: 'pad', axis: null, cause: 'hidden', time: 0, frequency: midiToFrequency(root), duration: NOTE_SECONDS['2n'], gain: dbToGain(-26) },
+    { layer: 'pad', axis: null, cause: 'hidden', time: 0, frequency: midiToFrequency(root + 1), duration: NOTE_SECONDS['2n'], gain: dbToGain(-28) },
+  ];
+};
+
+// Time for the longest release and the reverb to ring out after the last note
+export const RELEASE_TAIL_SECONDS = 5;
+
+export interface TraceScore {
+  notes: NoteEvent[]; // times relative to the start of the run
+  answer: AnswerNote[]; // the answer voice, times relative to the start of the run
+  duration: number; // seconds, including the flourish and release tail
+}
+
+export interface TimedMatches {
+  time: number; // seconds from the start of the run
+  text: string; // chunk text; empty for matches flushed at the end
+  matches: StreamMatch<AnyPatternId>[];
+}
+
+export interface TraceTimeline {
+  chunks: TimedMatches[];
+  endTime: number; // seconds; when the run ended and the flourish sounds
+}
+
+// Replay a recorded run through the streaming detector, chunk by chunk, with the
+// pattern set it was heard with (built-ins only by default)
+export const traceTimeline = (trace: ThoughtTrace, patterns: PatternDefinition<AnyPatternId>[] = PATTERNS): TraceTimeline => {
+  const detector = new StreamingPatternDetector(patterns);
+  const chunks: TimedMatches[] = trace.deltas.map(({ text_chunk, t_rel_ms }) => ({
+    time: t_rel_ms / 1000,
+    text: text_chunk,
+    matches: detector.push(text_chunk),
+  }));
+
+  // The run ends after its last thinking or answer chunk
+  const lastMs = [...trace.deltas, ...trace.answer_deltas].reduce((latest, d) => Math.max(latest, d.t_rel_ms), 0);
+  const endTime = Math.max(trace.end?.ms ?? 0, lastMs) / 1000;
+
+  // Markers completed by the last character land when the run ends
+  const remaining = detector.flush();
+  if (remaining.length > 0) {
+    chunks.push({ time: endTime, text: '', matches: remaining });
+  }
+
+  return { chunks, endTime };
+};
+
+// How often each pattern fired over a recorded run
+export const patternCounts = (
+  trace: ThoughtTrace, patterns: PatternDefinition<AnyPatternId>[] = PATTERNS
+): Map<AnyPatternId, number> => {
+  const counts = new Map<AnyPatternId, number>();
+  traceTimeline(trace, patterns).chunks.forEach(({ matches }) => {
+    matches.forEach((match) => counts.set(match.patternId, (counts.get(match.patternId) ?? 0) + 1));
+  });
+  return counts;
+};
+
+// Score a whole recorded run the way the live page would have played it
+export const scoreTrace = (
+  trace: ThoughtTrace,
+  gains: AxisGains = UNITY_GAINS,
+  routing: RoutingMatrix = DEFAULT_ROUTING,
+  patterns: PatternDefinition<AnyPatternId>[] = PATTERNS
+): TraceScore => {
+  const { chunks, endTime } = traceTimeline(trace, patterns);
+  const notes: NoteEvent[] = [];
+  const at = (time: number, chunkNotes: NoteEvent[]) => {
+    chunkNotes.forEach((n) => notes.push({ ...n, time: n.time + time }));
+  };
+
+  chunks.forEach(({ time, text, matches }) => at(time, scoreChunk(text, matches, gains, routing).notes));
+  trace.redacted.forEach(({ t_rel_ms }) => at(t_rel_ms / 1000, hiddenThoughtNotes()));
+  // A stopped run trails off instead of resolving
+  if (!trace.cancelled) {
+    at(endTime, flourishNotes());
+  }
+
+  // The answer plays in its own voice, as it did live
+  const answer = trace.answer_deltas.flatMap(({ text_chunk, t_rel_ms }, index) =>
+    scoreAnswerChunk(text_chunk, index).map((n) => ({ ...n, time: n.time + t_rel_ms / 1000 })));
+
+  const lastNoteEnd = [...notes, ...answer].reduce((latest, n) => Math.max(latest, n.time + n.duration), 0);
+  return { notes: notes.sort((a, b) => a.time - b.time), answer, duration: lastNoteEnd + RELEASE_TAIL_SECONDS };
+};
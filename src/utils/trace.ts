@@ -0,0 +1,233 @@
+import { downloadBlob } from './download';
+import { PROVIDER_IDS, ProviderId } from './models';
+import { DeltaEventData, EndEventData, StartEventData, StreamEvent, TokenUsage } from './streamEvents';
+import type { ApiErrorCode } from './streamRequest';
+
+// Trace files capture everything /api/stream sent during a run so it can be
+// re-sonified and re-visualized later without calling the API again.
+//
+// Format (version 1), stored as JSON:
+//   format       always "process-thought-trace"
+//   version      format version, bumped on incompatible changes
+//   recorded_at  ISO 8601 time the run started
+//   prompt       the query that produced the thinking
+//   start        the `start` event data: run_id, model, temperature, and provider,
+//                max_tokens and budget_tokens when recorded
+//   deltas       every `delta` event in arrival order: text_chunk, t_rel_ms
+//   redacted     every redacted thinking block: t_rel_ms, and offset, the length of
+//                the thinking text before it (optional; empty when absent)
+//   answer_deltas every `answer_delta` event in arrival order: text_chunk, t_rel_ms
+//                (optional; empty when absent)
+//   end          the `end` event data (tokens_out, ms, and usage and cost_usd when
+//                recorded), or null if the run never finished
+//   answer       the final answer text, or what had streamed of it; null if none did
+//   error        the in-stream error message, or null
+//   error_code   the in-stream error's code, when it had one (optional)
+//   cancelled    true if the user stopped the run before it finished (optional)
+
+export const TRACE_FORMAT = 'process-thought-trace';
+export const TRACE_VERSION = 1;
+
+// Where a redacted ("hidden") thought interrupted the visible thinking
+export interface RedactedMark {
+  t_rel_ms: number;
+  offset: number; // characters of thinking text before it
+}
+
+export interface ThoughtTrace {
+  format: typeof TRACE_FORMAT;
+  version: number;
+  recorded_at: string;
+  prompt: string;
+  start: StartEventData;
+  deltas: DeltaEventData[];
+  redacted: RedactedMark[];
+  answer_deltas: DeltaEventData[];
+  end: EndEventData | null;
+  answer: string | null;
+  error: string | null;
+  error_code?: ApiErrorCode;
+  cancelled: boolean;
+}
+
+export class TraceParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TraceParseError';
+  }
+}
+
+// Collects stream events for one run
+export class TraceRecorder {
+  private trace: ThoughtTrace;
+
+  constructor(prompt: string) {
+    this.trace = {
+      format: TRACE_FORMAT,
+      version: TRACE_VERSION,
+      recorded_at: new Date().toISOString(),
+      prompt,
+      start: { run_id: '', model: '', temperature: 1.0 },
+      deltas: [],
+      redacted: [],
+      answer_deltas: [],
+      end: null,
+      answer: null,
+      error: null,
+      cancelled: false,
+    };
+  }
+
+  record(event: StreamEvent): void {
+    switch (event.type) {
+      case 'start':
+        this.trace.start = { ...event.data };
+        break;
+      case 'delta':
+        this.trace.deltas.push({ text_chunk: event.data.text_chunk, t_rel_ms: event.data.t_rel_ms });
+        break;
+      case 'redacted_thinking':
+        this.trace.redacted.push({
+          t_rel_ms: event.data.t_rel_ms,
+          offset: this.trace.deltas.reduce((length, d) => length + d.text_chunk.length, 0),
+        });
+        break;
+      case 'answer_delta':
+        this.trace.answer_deltas.push({ text_chunk: event.data.text_chunk, t_rel_ms: event.data.t_rel_ms });
+        // The partial answer so far, kept if the run stops before the final `answer`
+        this.trace.answer = (this.trace.answer ?? '') + event.data.text_chunk;
+        break;
+      case 'end':
+        this.trace.end = { ...event.data };
+        break;
+      case 'answer':
+        // The complete answer replaces the streamed one
+        this.trace.answer = event.data.answer;
+        break;
+      case 'error':
+        this.trace.error = event.data.error;
+        if (event.data.code) this.trace.error_code = event.data.code;
+        break;
+    }
+  }
+
+  // The user stopped the run; whatever arrived so far is kept
+  cancel(): void {
+    this.trace.cancelled = true;
+  }
+
+  toTrace(): ThoughtTrace {
+    return {
+      ...this.trace,
+      deltas: [...this.trace.deltas],
+      redacted: [...this.trace.redacted],
+      answer_deltas: [...this.trace.answer_deltas],
+    };
+  }
+}
+
+export const serializeTrace = (trace: ThoughtTrace): string => JSON.stringify(trace, null, 2);
+
+// Whether anything arrived before the run ended; the archive skips runs where nothing did
+export const hasContent = (trace: ThoughtTrace): boolean => trace.deltas.length > 0 || trace.answer !== null;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const USAGE_COUNTS = ['input_tokens', 'output_tokens', 'cache_creation_input_tokens', 'cache_read_input_tokens', 'thinking_tokens'] as const;
+
+// Token usage is optional, so a malformed one is dropped rather than rejected
+const parseUsage = (usage: unknown): TokenUsage | undefined => {
+  if (!isRecord(usage) || !USAGE_COUNTS.every((key) => typeof usage[key] === 'number')) return undefined;
+  return {
+    input_tokens: usage.input_tokens as number,
+    output_tokens: usage.output_tokens as number,
+    cache_creation_input_tokens: usage.cache_creation_input_tokens as number,
+    cache_read_input_tokens: usage.cache_read_input_tokens as number,
+    thinking_tokens: usage.thinking_tokens as number,
+    thinking_estimated: usage.thinking_estimated !== false,
+  };
+};
+
+// Parse and validate a trace file, throwing TraceParseError with a readable reason
+export const parseTrace = (json: string): ThoughtTrace => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new TraceParseError('File is not valid JSON');
+  }
+
+  if (!isRecord(raw) || raw.format !== TRACE_FORMAT) {
+    throw new TraceParseError('File is not a Process Thought trace');
+  }
+  if (typeof raw.version !== 'number' || raw.version > TRACE_VERSION) {
+    throw new TraceParseError(`Unsupported trace version: ${String(raw.version)}`);
+  }
+
+  const { start, deltas } = raw;
+  const redacted = raw.redacted ?? [];
+  const answerDeltas = raw.answer_deltas ?? [];
+  const end = raw.end ?? null;
+  if (!isRecord(start) || typeof start.model !== 'string' || typeof start.temperature !== 'number') {
+    throw new TraceParseError('Trace is missing its start metadata');
+  }
+  if (!Array.isArray(deltas) || !deltas.every((d) =>
+    isRecord(d) && typeof d.text_chunk === 'string' && typeof d.t_rel_ms === 'number'
+  )) {
+    throw new TraceParseError('Trace deltas are malformed');
+  }
+  if (!Array.isArray(redacted) || !redacted.every((r) =>
+    isRecord(r) && typeof r.t_rel_ms === 'number' && typeof r.offset === 'number'
+  )) {
+    throw new TraceParseError('Trace redacted marks are malformed');
+  }
+  if (!Array.isArray(answerDeltas) || !answerDeltas.every((d) =>
+    isRecord(d) && typeof d.text_chunk === 'string' && typeof d.t_rel_ms === 'number'
+  )) {
+    throw new TraceParseError('Trace answer deltas are malformed');
+  }
+  if (end !== null && !(isRecord(end) && typeof end.ms === 'number' && typeof end.tokens_out === 'number')) {
+    throw new TraceParseError('Trace end stats are malformed');
+  }
+
+  const usage = end === null ? undefined : parseUsage(end.usage);
+
+  return {
+    format: TRACE_FORMAT,
+    version: raw.version,
+    recorded_at: typeof raw.recorded_at === 'string' ? raw.recorded_at : '',
+    prompt: typeof raw.prompt === 'string' ? raw.prompt : '',
+    start: {
+      run_id: typeof start.run_id === 'string' ? start.run_id : '',
+      ...(PROVIDER_IDS.includes(start.provider as ProviderId) && { provider: start.provider as ProviderId }),
+      model: start.model,
+      temperature: start.temperature,
+      ...(typeof start.max_tokens === 'number' && { max_tokens: start.max_tokens }),
+      ...(typeof start.budget_tokens === 'number' && { budget_tokens: start.budget_tokens }),
+    },
+    deltas: deltas.map((d) => ({ text_chunk: d.text_chunk, t_rel_ms: d.t_rel_ms })),
+    redacted: redacted.map((r) => ({ t_rel_ms: r.t_rel_ms, offset: r.offset })),
+    answer_deltas: answerDeltas.map((d) => ({ text_chunk: d.text_chunk, t_rel_ms: d.t_rel_ms })),
+    end: end === null ? null : {
+      tokens_out: end.tokens_out as number,
+      ms: end.ms as number,
+      ...(usage && { usage }),
+      ...((typeof end.cost_usd === 'number' || end.cost_usd === null) && { cost_usd: end.cost_usd as number | null }),
+    },
+    answer: typeof raw.answer === 'string' ? raw.answer : null,
+    error: typeof raw.error === 'string' ? raw.error : null,
+    ...(typeof raw.error_code === 'string' && { error_code: raw.error_code as ApiErrorCode }),
+    cancelled: raw.cancelled === true,
+  };
+};
+
+export const traceFileName = (trace: ThoughtTrace): string => `${traceBaseName(trace)}.trace.json`;
+
+// Offer the trace as a file download (browser only)
+export const downloadTrace = (trace: ThoughtTrace): void => {
+  downloadBlob(new Blob([serializeTrace(trace)], { type: 'application/json' }), traceFileName(trace));
+};
+
+// Base name for files exported from a run
+export const traceBaseName = (trace: ThoughtTrace): string => trace.start.run_id || 'run';
@@ -0,0 +1,59 @@
+import { AnyPatternId, PATTERNS, PatternDefinition } from './patternEngine';
+import { patternCounts } from './thoughtScore';
+import { ThoughtTrace } from './trace';
+
+// Figures for comparing two runs of the same prompt
+
+export interface TraceMetrics {
+  patterns: Record<AnyPatternId, number>; // times each pattern fired
+  words: number; // in the thinking text
+  revisions_per_k_words: number; // revision markers per 1,000 words of thinking
+  duration_ms: number | null; // null for runs that never ended
+  tokens_out: number | null;
+}
+
+export interface MetricDiff {
+  label: string;
+  a: number | null;
+  b: number | null;
+  delta: number | null; // b - a
+}
+
+export const traceMetrics = (trace: ThoughtTrace, patterns: PatternDefinition<AnyPatternId>[] = PATTERNS): TraceMetrics => {
+  const counts = patternCounts(trace, patterns);
+  const text = trace.deltas.map((d) => d.text_chunk).join('');
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const fired = Object.fromEntries(patterns.map(({ id }) => [id, counts.get(id) ?? 0])) as Record<AnyPatternId, number>;
+
+  return {
+    patterns: fired,
+    words,
+    revisions_per_k_words: words > 0 ? (fired.revision / words) * 1000 : 0,
+    duration_ms: trace.end?.ms ?? null,
+    tokens_out: trace.end?.tokens_out ?? null,
+  };
+};
+
+const diff = (label: string, a: number | null, b: number | null): MetricDiff => ({
+  label,
+  a,
+  b,
+  delta: a === null || b === null ? null : b - a,
+});
+
+// Run-level figures first, then every pattern that fired in either run
+export const compareTraces = (
+  a: ThoughtTrace, b: ThoughtTrace, patterns: PatternDefinition<AnyPatternId>[] = PATTERNS
+): MetricDiff[] => {
+  const ma = traceMetrics(a, patterns);
+  const mb = traceMetrics(b, patterns);
+  return [
+    diff('Duration (s)', ma.duration_ms === null ? null : ma.duration_ms / 1000, mb.duration_ms === null ? null : mb.duration_ms / 1000),
+    diff('Output tokens', ma.tokens_out, mb.tokens_out),
+    diff('Thinking words', ma.words, mb.words),
+    diff('Revisions / 1k words', ma.revisions_per_k_words, mb.revisions_per_k_words),
+    ...patterns
+      .filter(({ id }) => ma.patterns[id] > 0 || mb.patterns[id] > 0)
+      .map(({ id }) => diff(id, ma.patterns[id], mb.patterns[id])),
+  ];
+};